@@ -0,0 +1,69 @@
+import type { Block, BlocksField, Field, TabsField } from 'payload'
+
+import {
+  findBlockExperiments,
+  mapBlockExperiments,
+  mapBlocksFields,
+} from '../src/utilities/blocks.js'
+
+const hero: Block = {
+  slug: 'hero',
+  fields: [{ name: 'heading', type: 'text' }],
+}
+
+describe('Block experiments', () => {
+  it('maps the blocks of the configured blocks fields only', () => {
+    const fields: Field[] = [
+      { name: 'layout', type: 'blocks', blocks: [hero] },
+      { name: 'sidebar', type: 'blocks', blocks: [hero] },
+      {
+        type: 'tabs',
+        tabs: [{ name: 'page', fields: [{ name: 'sections', type: 'blocks', blocks: [hero] }] }],
+      },
+    ]
+
+    const mapped = mapBlocksFields(fields, ['layout', 'page.sections'], (block) => ({
+      ...block,
+      slug: `${block.slug}-mapped`,
+    }))
+
+    const slugs = (field: Field) => (field as BlocksField).blocks.map((block) => block.slug)
+
+    expect(slugs(mapped[0])).toStrictEqual(['hero-mapped'])
+    expect(slugs(mapped[1])).toStrictEqual(['hero'])
+    expect(slugs((mapped[2] as TabsField).tabs[0].fields[0])).toStrictEqual(['hero-mapped'])
+  })
+
+  it('finds block experiments outside of variant content', () => {
+    const block = { id: '1', blockType: 'hero', enableABTesting: true, heading: 'Hello' }
+    const document = {
+      abVariant: { layout: [{ ...block }] },
+      layout: [block, { id: '2', blockType: 'text' }],
+    }
+
+    expect(findBlockExperiments(document)).toStrictEqual([block])
+  })
+
+  it('replaces block experiments and keeps the rest of the document', () => {
+    const document = {
+      abVariant: { title: 'Variant' },
+      layout: [
+        { id: '1', blockType: 'hero', enableABTesting: true, heading: 'Hello' },
+        { id: '2', blockType: 'text', body: 'Unchanged' },
+      ],
+      title: 'Original',
+    }
+
+    const mapped = mapBlockExperiments(document, (block) => ({ ...block, heading: 'Hi' }))
+
+    expect(mapped.layout[0]).toStrictEqual({
+      id: '1',
+      blockType: 'hero',
+      enableABTesting: true,
+      heading: 'Hi',
+    })
+    expect(mapped.layout[1]).toStrictEqual(document.layout[1])
+    expect(mapped.abVariant).toBe(document.abVariant)
+    expect(mapped.title).toBe('Original')
+  })
+})
@@ -0,0 +1,60 @@
+import { assignVariant } from '../src/utilities/bucketing.js'
+
+const variants = [
+  { key: 'control', rolloutPercentage: 50 },
+  { key: 'variant', rolloutPercentage: 30 },
+  { key: 'variant-b', rolloutPercentage: 20 },
+]
+
+const countAssignments = (args: { rolloutPercentage?: number }) => {
+  const counts: Record<string, number> = {}
+
+  for (let i = 0; i < 10000; i++) {
+    const key = String(
+      assignVariant({ distinctId: `user-${i}`, flagKey: 'flag', variants, ...args }),
+    )
+    counts[key] = (counts[key] || 0) + 1
+  }
+
+  return counts
+}
+
+describe('Local bucketing', () => {
+  it('assigns the same variant to the same distinct ID', () => {
+    const first = assignVariant({ distinctId: 'user-1', flagKey: 'flag', variants })
+
+    for (let i = 0; i < 10; i++) {
+      expect(assignVariant({ distinctId: 'user-1', flagKey: 'flag', variants })).toBe(first)
+    }
+  })
+
+  it('splits the traffic according to the variant weights', () => {
+    const counts = countAssignments({})
+
+    expect(counts.control / 10000).toBeCloseTo(0.5, 1)
+    expect(counts.variant / 10000).toBeCloseTo(0.3, 1)
+    expect(counts['variant-b'] / 10000).toBeCloseTo(0.2, 1)
+  })
+
+  it('leaves distinct IDs outside the rollout unassigned', () => {
+    const counts = countAssignments({ rolloutPercentage: 25 })
+
+    expect(counts.null / 10000).toBeCloseTo(0.75, 1)
+    expect(
+      assignVariant({ distinctId: 'user-1', flagKey: 'flag', rolloutPercentage: 0, variants }),
+    ).toBeNull()
+  })
+
+  it('keeps assignments stable when the rollout is ramped up', () => {
+    const assignments = Array.from({ length: 1000 }, (_, i) => {
+      const args = { distinctId: `user-${i}`, flagKey: 'flag', variants }
+      return {
+        full: assignVariant({ ...args, rolloutPercentage: 100 }),
+        partial: assignVariant({ ...args, rolloutPercentage: 20 }),
+      }
+    }).filter(({ partial }) => partial !== null)
+
+    expect(assignments.length).toBeGreaterThan(0)
+    expect(assignments.every(({ full, partial }) => full === partial)).toBe(true)
+  })
+})
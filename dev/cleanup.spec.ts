@@ -0,0 +1,65 @@
+import type { CollectionConfig, Config, PayloadRequest } from 'payload'
+
+import type { ABDeleteCleanup, ExperimentProvider } from '../src/index.js'
+
+import { abTestingPlugin, createLocalProvider } from '../src/index.js'
+
+const pages: CollectionConfig = {
+  slug: 'pages',
+  fields: [{ name: 'title', type: 'text' }],
+}
+
+const createProvider = () => ({
+  ...createLocalProvider(),
+  deactivateFlag: jest.fn(() => Promise.resolve({ found: true })),
+  deleteFlag: jest.fn(() => Promise.resolve({ found: true })),
+  updateExperiment: jest.fn(() => Promise.resolve({ found: true })),
+})
+
+const applyPlugin = (provider: ExperimentProvider, onDelete?: ABDeleteCleanup) => {
+  const config = abTestingPlugin({ collections: ['pages'], onDelete, provider })({
+    collections: [pages],
+  } as Config)
+
+  return config.collections!.find((collection) => collection.slug === 'pages')!
+}
+
+const req = {
+  payload: { logger: { error: jest.fn(), info: jest.fn() } },
+} as unknown as PayloadRequest
+
+const deletedDocument = {
+  id: 1,
+  enableABTesting: true,
+  layout: [{ blockType: 'hero', enableABTesting: true, posthogFeatureFlagKey: 'hero-flag' }],
+  posthogFeatureFlagKey: 'page-flag',
+}
+
+describe('Delete cleanup', () => {
+  it('deactivates the flags of a deleted document and archives their experiments', async () => {
+    const provider = createProvider()
+    const [hook] = applyPlugin(provider).hooks!.afterDelete!
+
+    await hook({ id: 1, collection: {} as never, context: {}, doc: deletedDocument, req })
+
+    expect(provider.deactivateFlag.mock.calls).toStrictEqual([['page-flag'], ['hero-flag']])
+    expect(provider.updateExperiment).toHaveBeenCalledWith({
+      archived: true,
+      featureFlagKey: 'page-flag',
+    })
+    expect(provider.deleteFlag).not.toHaveBeenCalled()
+  })
+
+  it('deletes the flags when configured to', async () => {
+    const provider = createProvider()
+    const [hook] = applyPlugin(provider, 'delete').hooks!.afterDelete!
+
+    await hook({ id: 1, collection: {} as never, context: {}, doc: deletedDocument, req })
+
+    expect(provider.deleteFlag.mock.calls).toStrictEqual([['page-flag'], ['hero-flag']])
+  })
+
+  it('keeps the flags when configured to', () => {
+    expect(applyPlugin(createProvider(), 'keep').hooks?.afterDelete).toBeUndefined()
+  })
+})
@@ -0,0 +1,106 @@
+import type { createPostHogApi } from '../src/providers/posthog.js'
+import type { ExperimentDefinition } from '../src/types/index.js'
+
+import { upsertPostHogExperiment } from '../src/providers/posthog.js'
+
+type Api = ReturnType<typeof createPostHogApi>
+
+const experiment: ExperimentDefinition = {
+  name: 'Homepage hero',
+  description: 'Hero copy test',
+  featureFlagKey: 'hero-test',
+  metrics: [
+    { name: 'CTA clicks', event: 'cta_click' },
+    { name: 'Signups', event: 'sign_up' },
+  ],
+}
+
+// Metrics as PostHog stores them, with their IDs and the defaults it adds
+const storedMetrics = [
+  {
+    name: 'CTA clicks',
+    conversion_window: 14,
+    kind: 'ExperimentMetric',
+    metric_type: 'funnel',
+    series: [{ event: 'cta_click', kind: 'EventsNode', math: 'total', properties: [] }],
+    uuid: 'stored-cta',
+  },
+  {
+    name: 'Signups',
+    kind: 'ExperimentMetric',
+    metric_type: 'funnel',
+    series: [{ event: 'sign_up', kind: 'EventsNode', properties: [] }],
+    uuid: 'stored-signups',
+  },
+]
+
+const createApi = (existing?: Record<string, unknown>) => {
+  const api = {
+    createExperiment: jest.fn(() => Promise.resolve({ data: { id: 7 }, ok: true, status: 201 })),
+    findExperimentByFlagKey: jest.fn(() =>
+      Promise.resolve({ data: existing, ok: true, status: 200 }),
+    ),
+    getExperiment: jest.fn(() => Promise.resolve({ errorText: '', ok: false, status: 404 })),
+    updateExperiment: jest.fn(() => Promise.resolve({ data: existing, ok: true, status: 200 })),
+  }
+
+  return api as Api & typeof api
+}
+
+describe('Experiment sync', () => {
+  it('creates the experiment when the flag has none', async () => {
+    const api = createApi()
+
+    await expect(upsertPostHogExperiment(api, experiment)).resolves.toStrictEqual({
+      id: 7,
+      action: 'created',
+    })
+    expect(api.createExperiment).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves an unchanged experiment alone', async () => {
+    const api = createApi({
+      id: 3,
+      name: experiment.name,
+      description: experiment.description,
+      feature_flag_key: 'hero-test',
+      metrics: storedMetrics,
+    })
+
+    await expect(upsertPostHogExperiment(api, { ...experiment, id: 3 })).resolves.toStrictEqual({
+      id: 3,
+      action: 'unchanged',
+    })
+    expect(api.getExperiment).toHaveBeenCalledWith(3)
+    expect(api.createExperiment).not.toHaveBeenCalled()
+    expect(api.updateExperiment).not.toHaveBeenCalled()
+  })
+
+  it('patches what changed and keeps the IDs of unchanged metrics', async () => {
+    const api = createApi({
+      id: 3,
+      name: 'Old name',
+      description: experiment.description,
+      feature_flag_key: 'hero-test',
+      metrics: storedMetrics,
+    })
+
+    const result = await upsertPostHogExperiment(api, {
+      ...experiment,
+      metrics: [experiment.metrics[0], { name: 'Signups', event: 'sign_up_completed' }],
+    })
+
+    expect(result).toStrictEqual({ id: 3, action: 'updated' })
+    expect(api.createExperiment).not.toHaveBeenCalled()
+
+    const [id, changes] = api.updateExperiment.mock.calls[0] as unknown as [
+      number,
+      { description?: string; metrics: { uuid: string }[]; name?: string },
+    ]
+    expect(id).toBe(3)
+    expect(changes.name).toBe('Homepage hero')
+    expect(changes.description).toBeUndefined()
+    expect(changes.metrics[0].uuid).toBe('stored-cta')
+    expect(changes.metrics[1].uuid).not.toBe('stored-signups')
+  })
+})
@@ -0,0 +1,159 @@
+import type { Field } from 'payload'
+
+import {
+  getNamedFields,
+  mapNamedFields,
+  pickFieldData,
+  selectFields,
+} from '../src/utilities/fields.js'
+import { mergeVariantContent } from '../src/utilities/variants.js'
+
+const fields: Field[] = [
+  { name: 'title', type: 'text' },
+  {
+    name: 'hero',
+    type: 'group',
+    fields: [
+      { name: 'title', type: 'text' },
+      { name: 'image', type: 'text' },
+      {
+        name: 'cta',
+        type: 'group',
+        fields: [
+          { name: 'label', type: 'text' },
+          { name: 'url', type: 'text' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'items',
+    type: 'array',
+    fields: [
+      { name: 'label', type: 'text' },
+      { name: 'icon', type: 'text' },
+    ],
+  },
+  {
+    type: 'row',
+    fields: [
+      { name: 'subtitle', type: 'text', localized: true },
+      { name: 'internalNote', type: 'text' },
+    ],
+  },
+  {
+    type: 'tabs',
+    tabs: [
+      {
+        fields: [
+          {
+            type: 'collapsible',
+            fields: [{ name: 'body', type: 'textarea' }],
+            label: 'Body',
+          },
+        ],
+        label: 'Content',
+      },
+      { name: 'meta', fields: [{ name: 'description', type: 'text' }], label: 'Meta' },
+    ],
+  },
+]
+
+describe('Variant field walking', () => {
+  it('lists named fields inside rows, collapsibles and tabs', () => {
+    expect(getNamedFields(fields).map((field) => field.name)).toStrictEqual([
+      'title',
+      'hero',
+      'items',
+      'subtitle',
+      'internalNote',
+      'body',
+      'meta',
+    ])
+    expect(getNamedFields(fields).find((field) => field.name === 'subtitle')?.localized).toBe(true)
+  })
+
+  it('keeps the layout and drops containers left empty', () => {
+    const filtered = selectFields(fields, { include: ['body', 'subtitle'] })
+
+    expect(filtered).toHaveLength(2)
+    expect(filtered[0]).toMatchObject({ type: 'row', fields: [{ name: 'subtitle' }] })
+    expect(filtered[1]).toMatchObject({
+      type: 'tabs',
+      tabs: [{ fields: [{ type: 'collapsible', fields: [{ name: 'body' }] }], label: 'Content' }],
+    })
+  })
+
+  it('narrows groups and arrays to the selected dot paths', () => {
+    const selected = selectFields(fields, {
+      include: ['hero.title', 'hero.cta.label', 'items.label'],
+    })
+
+    expect(selected).toMatchObject([
+      {
+        name: 'hero',
+        fields: [{ name: 'title' }, { name: 'cta', fields: [{ name: 'label' }] }],
+      },
+      { name: 'items', fields: [{ name: 'label' }] },
+    ])
+    expect(selectFields(fields, { exclude: ['hero.image', 'items'] })[1]).toMatchObject({
+      name: 'hero',
+      fields: [{ name: 'title' }, { name: 'cta' }],
+    })
+
+    const data = {
+      hero: { cta: { label: 'Buy', url: '/buy' }, image: 'a.png', title: 'Hi' },
+      items: [{ icon: 'star', label: 'One' }],
+    }
+    expect(pickFieldData(data, selected)).toStrictEqual({
+      hero: { cta: { label: 'Buy' }, title: 'Hi' },
+      items: [{ label: 'One' }],
+    })
+  })
+
+  it('deep merges partial variants over the control', () => {
+    const control = {
+      hero: { cta: { label: 'Buy', url: '/buy' }, title: 'Hi' },
+      items: [
+        { icon: 'star', label: 'One' },
+        { icon: 'moon', label: 'Two' },
+      ],
+    }
+
+    expect(
+      mergeVariantContent(control, {
+        hero: { cta: { label: 'Buy now' }, title: null },
+        items: [{ label: 'Uno' }, { label: 'Dos' }],
+      }),
+    ).toStrictEqual({
+      hero: { cta: { label: 'Buy now', url: '/buy' }, title: 'Hi' },
+      items: [
+        { icon: 'star', label: 'Uno' },
+        { icon: 'moon', label: 'Dos' },
+      ],
+    })
+  })
+
+  it('maps the fields of named and unnamed tabs', () => {
+    const mapped = mapNamedFields(
+      [
+        {
+          type: 'tabs',
+          tabs: [
+            {
+              name: 'seo',
+              fields: [{ name: 'title', type: 'text', required: true }],
+              label: 'SEO',
+            },
+            { fields: [{ name: 'body', type: 'text', required: true }], label: 'Content' },
+          ],
+        },
+      ],
+      (field) => ({ ...field, required: false }) as Field,
+    )
+
+    const [seo, content] = (mapped[0] as { tabs: { fields: { required?: boolean }[] }[] }).tabs
+    expect(seo.fields[0].required).toBe(false)
+    expect(content.fields[0].required).toBe(false)
+  })
+})
@@ -0,0 +1,118 @@
+import type { PayloadRequest } from 'payload'
+
+import { validateFeatureFlagKey, validateFeatureFlagKeyFormat } from '../src/utilities/flagKeys.js'
+
+type StoredDocument = {
+  id: number
+  layout?: { blockType: string; enableABTesting: boolean; posthogFeatureFlagKey: string }[]
+  posthogFeatureFlagKey?: string
+}
+
+const createReq = (documents: Record<string, StoredDocument[]>) => {
+  const payload = {
+    collections: { pages: {}, posts: {} },
+    find: jest.fn(({ collection, where }) => {
+      const [{ or }, exclude] = where.and
+      const keys = (doc: StoredDocument) => [
+        doc.posthogFeatureFlagKey,
+        ...(doc.layout || []).map((block) => block.posthogFeatureFlagKey),
+      ]
+      const key = or[0].posthogFeatureFlagKey.equals
+
+      return Promise.resolve({
+        docs: (documents[collection] || []).filter(
+          (doc) => keys(doc).includes(key) && doc.id !== exclude?.id.not_equals,
+        ),
+      })
+    }),
+    findGlobal: jest.fn(() =>
+      Promise.resolve({
+        banner: [{ blockType: 'cta', enableABTesting: true, posthogFeatureFlagKey: 'banner-flag' }],
+        posthogFeatureFlagKey: 'header-flag',
+      }),
+    ),
+  }
+
+  return { payload } as unknown as PayloadRequest
+}
+
+const scope = {
+  blocks: { pages: ['layout'] },
+  collections: ['posts', 'pages'],
+  globals: ['header'],
+}
+
+describe('Feature flag keys', () => {
+  it('only allows letters, numbers, hyphens and underscores', () => {
+    expect(validateFeatureFlagKeyFormat('hero_test-2')).toBe(true)
+    expect(validateFeatureFlagKeyFormat('')).toBe(true)
+    expect(validateFeatureFlagKeyFormat('hero test')).toContain('can only contain')
+    expect(validateFeatureFlagKeyFormat('héro')).toContain('can only contain')
+  })
+
+  it('rejects a key used by a document of another collection or a global', async () => {
+    const req = createReq({ pages: [{ id: 3, posthogFeatureFlagKey: 'hero' }] })
+
+    await expect(
+      validateFeatureFlagKey('hero', req, { ...scope, id: 1, collection: 'posts' }),
+    ).resolves.toBe(
+      'The feature flag key "hero" is already used by pages 3. Feature flag keys must be unique.',
+    )
+    await expect(
+      validateFeatureFlagKey('header-flag', req, { ...scope, id: 1, collection: 'posts' }),
+    ).resolves.toContain('already used by global header')
+  })
+
+  it('accepts the key of the document being saved', async () => {
+    const req = createReq({ posts: [{ id: 1, posthogFeatureFlagKey: 'hero' }] })
+
+    await expect(
+      validateFeatureFlagKey('hero', req, { ...scope, id: 1, collection: 'posts' }),
+    ).resolves.toBe(true)
+    await expect(
+      validateFeatureFlagKey('header-flag', req, { ...scope, global: 'header' }),
+    ).resolves.toBe(true)
+  })
+
+  it('rejects a key used by a block of another document or of the same document', async () => {
+    const req = createReq({
+      pages: [
+        {
+          id: 3,
+          layout: [{ blockType: 'hero', enableABTesting: true, posthogFeatureFlagKey: 'hero' }],
+        },
+      ],
+    })
+
+    await expect(
+      validateFeatureFlagKey('hero', req, { ...scope, id: 1, collection: 'posts' }),
+    ).resolves.toContain('already used by pages 3')
+    await expect(
+      validateFeatureFlagKey('banner-flag', req, { ...scope, id: 1, collection: 'posts' }),
+    ).resolves.toContain('already used by global header')
+    await expect(
+      validateFeatureFlagKey('promo', req, {
+        ...scope,
+        id: 1,
+        collection: 'posts',
+        documentKeys: ['page-flag', 'promo', 'promo'],
+      }),
+    ).resolves.toContain('used more than once in this document')
+
+    expect(req.payload.find).toHaveBeenCalledWith(expect.objectContaining({ draft: true }))
+    expect(req.payload.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          and: [
+            {
+              or: [
+                { posthogFeatureFlagKey: { equals: 'hero' } },
+                { 'layout.posthogFeatureFlagKey': { equals: 'hero' } },
+              ],
+            },
+          ],
+        },
+      }),
+    )
+  })
+})
@@ -122,4 +122,314 @@ describe('Plugin tests', () => {
     // Deep compare content arrays
     expect(variant.content).toEqual(createData.content)
   })
+
+  it('pre-fills additional A/B/n variants with the control content', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: {
+        content: [{ type: 'p', children: [{ text: 'Multivariate content' }] }],
+        enableABTesting: true,
+        title: 'Multivariate Title',
+      },
+    })
+
+    const updated = await payload.update({
+      id: post.id,
+      collection: 'posts',
+      data: { abVariants: [{ name: 'Variant B', key: 'variant_b' }] },
+    })
+
+    const rows = updated.abVariants as Record<string, any>[]
+    expect(rows).toHaveLength(1)
+    expect(rows[0].key).toBe('variant_b')
+    expect(rows[0].content.title).toBe('Multivariate Title')
+  })
+
+  it('stores first-party experiment events posted as a beacon', async () => {
+    const response = await restClient.POST('/ab/events', {
+      body: JSON.stringify([
+        { distinctId: 'user-1', eventType: 'exposure', flagKey: 'events_flag', variant: 'control' },
+        {
+          distinctId: 'user-1',
+          eventType: 'conversion',
+          flagKey: 'events_flag',
+          metric: 'signup',
+          variant: 'control',
+        },
+      ]),
+      headers: { 'Content-Type': 'text/plain' },
+    })
+    expect(response.status).toBe(201)
+
+    const { docs } = await payload.find({
+      collection: 'ab-events',
+      where: { flagKey: { equals: 'events_flag' } },
+    })
+    expect(docs).toHaveLength(2)
+    expect(docs.map((doc) => doc.eventType).sort()).toEqual(['conversion', 'exposure'])
+
+    const invalid = await restClient.POST('/ab/events', {
+      body: JSON.stringify({
+        distinctId: 'user-1',
+        eventType: 'conversion',
+        flagKey: 'events_flag',
+      }),
+    })
+    expect(invalid.status).toBe(400)
+  })
+
+  it('computes experiment results from first-party events', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: {
+        enableABTesting: true,
+        experimentMetrics: [{ metric: 'cta_click' }],
+        posthogFeatureFlagKey: 'results_flag',
+        title: 'Results Title',
+      },
+    })
+
+    await restClient.POST('/ab/events', {
+      body: JSON.stringify([
+        { distinctId: 'a', eventType: 'exposure', flagKey: 'results_flag', variant: 'control' },
+        { distinctId: 'b', eventType: 'exposure', flagKey: 'results_flag', variant: 'variant' },
+        {
+          distinctId: 'b',
+          eventType: 'conversion',
+          flagKey: 'results_flag',
+          metric: 'cta_click',
+          variant: 'variant',
+        },
+        // A repeated conversion and a conversion without an exposure are not counted
+        {
+          distinctId: 'b',
+          eventType: 'conversion',
+          flagKey: 'results_flag',
+          metric: 'cta_click',
+          variant: 'variant',
+        },
+        {
+          distinctId: 'c',
+          eventType: 'conversion',
+          flagKey: 'results_flag',
+          metric: 'cta_click',
+          variant: 'variant',
+        },
+      ]),
+    })
+
+    const unauthorized = await restClient.GET(`/ab/results/posts/${post.id}`)
+    expect(unauthorized.status).toBe(401)
+
+    await restClient.login({ slug: 'users' })
+    const response = await restClient.GET(`/ab/results/posts/${post.id}`)
+    expect(response.status).toBe(200)
+
+    const results = await response.json()
+    expect(results.source).toBe('events')
+    const variant = results.metrics[0].variants.find((v: { key: string }) => v.key === 'variant')
+    expect(variant.exposures).toBe(1)
+    expect(variant.conversions).toBe(1)
+    expect(variant.conversionRate).toBe(1)
+  })
+
+  it('copies global content to the variant when A/B testing is enabled', async () => {
+    const header = await payload.updateGlobal({
+      slug: 'header',
+      data: {
+        announcement: 'Free shipping',
+        enableABTesting: true,
+      },
+    })
+
+    expect(header.abVariant).toBeDefined()
+    expect((header.abVariant as Record<string, any>).announcement).toBe('Free shipping')
+  })
+
+  it('keeps the variant when A/B testing is disabled until it is discarded', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: { enableABTesting: true, title: 'Lifecycle Title' },
+    })
+    expect(post.experimentStatus).toBe('draft')
+
+    const disabled = await payload.update({
+      id: post.id,
+      collection: 'posts',
+      data: { enableABTesting: false },
+    })
+    expect((disabled.abVariant as Record<string, any>).title).toBe('Lifecycle Title')
+
+    const discarded = await payload.update({
+      id: post.id,
+      collection: 'posts',
+      data: { discardABVariants: true },
+    })
+    expect((discarded.abVariant as Record<string, any>).title).toBeFalsy()
+    expect(discarded.discardABVariants).toBe(false)
+  })
+
+  it('rejects invalid experiment status transitions', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: { enableABTesting: true, title: 'Transition Title' },
+    })
+
+    await expect(
+      payload.update({
+        id: post.id,
+        collection: 'posts',
+        data: { experimentStatus: 'concluded' },
+      }),
+    ).rejects.toMatchObject({
+      data: {
+        errors: [
+          {
+            message: expect.stringContaining(
+              'An experiment cannot move from "draft" to "concluded"',
+            ),
+            path: 'experimentStatus',
+          },
+        ],
+      },
+    })
+  })
+
+  it('promotes the winning variant into the control content', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: { enableABTesting: true, title: 'Control Title' },
+    })
+    await payload.update({
+      id: post.id,
+      collection: 'posts',
+      data: { abVariant: { title: 'Winning Title' }, experimentStatus: 'running' },
+    })
+
+    await restClient.login({ slug: 'users' })
+    const response = await restClient.POST(`/ab/promote/posts/${post.id}`, {
+      body: JSON.stringify({ variant: 'variant' }),
+    })
+    expect(response.status).toBe(200)
+
+    const promoted = await payload.findByID({ id: post.id, collection: 'posts' })
+    expect(promoted.title).toBe('Winning Title')
+    expect(promoted.experimentStatus).toBe('concluded')
+    expect(promoted.experimentWinner).toBe('variant')
+  })
+
+  it('starts a scheduled experiment and reschedules changed dates', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: {
+        enableABTesting: true,
+        experimentEndAt: new Date(Date.now() + 14 * 86_400_000).toISOString(),
+        experimentStartAt: new Date(Date.now() - 1000).toISOString(),
+        title: 'Scheduled Title',
+      },
+    })
+
+    const jobs = async () =>
+      (
+        await payload.find({
+          collection: 'payload-jobs',
+          where: { 'input.id': { equals: String(post.id) } },
+        })
+      ).docs
+
+    expect(await jobs()).toHaveLength(2)
+
+    const rescheduledEnd = new Date(Date.now() + 21 * 86_400_000).toISOString()
+    await payload.update({
+      id: post.id,
+      collection: 'posts',
+      data: { experimentEndAt: rescheduledEnd },
+    })
+
+    const pending = (await jobs()).filter((job) => !job.hasError)
+    expect(pending).toHaveLength(2)
+    expect(pending.map((job) => (job.input as Record<string, any>).scheduledAt)).toContain(
+      rescheduledEnd,
+    )
+
+    await payload.jobs.run()
+
+    const started = await payload.findByID({ id: post.id, collection: 'posts' })
+    expect(started.experimentStatus).toBe('running')
+  })
+
+  it('records experiment changes in the read-only audit log', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: { enableABTesting: true, title: 'Audited Title' },
+    })
+    await payload.update({
+      id: post.id,
+      collection: 'posts',
+      data: { experimentStatus: 'running' },
+    })
+
+    const { docs } = await payload.find({
+      collection: 'ab-audit-log',
+      sort: 'createdAt',
+      where: { documentId: { equals: String(post.id) } },
+    })
+
+    expect(docs.map((entry) => entry.action)).toStrictEqual(
+      expect.arrayContaining(['enabled', 'status_changed']),
+    )
+    expect(docs.find((entry) => entry.action === 'status_changed')).toMatchObject({
+      fromStatus: 'draft',
+      toStatus: 'running',
+    })
+
+    await expect(
+      payload.create({
+        collection: 'ab-audit-log',
+        data: { action: 'enabled' },
+        overrideAccess: false,
+      }),
+    ).rejects.toThrow('You are not allowed to perform this action.')
+  })
+
+  it('starts a new experiment when a document is duplicated', async () => {
+    const post = await payload.create({
+      collection: 'posts',
+      data: {
+        enableABTesting: true,
+        experimentStatus: 'running',
+        posthogExperimentId: '42',
+        posthogFeatureFlagKey: 'duplicated-flag',
+        title: 'Duplicated Title',
+      },
+    })
+
+    const duplicate = await payload.duplicate({ id: post.id, collection: 'posts' })
+
+    expect(duplicate.id).not.toBe(post.id)
+    expect(duplicate.posthogFeatureFlagKey).not.toBe('duplicated-flag')
+    expect(duplicate.posthogExperimentId).toBeFalsy()
+    expect(duplicate.experimentStatus).toBe('draft')
+    expect(duplicate.experimentStartedAt).toBeFalsy()
+  })
+
+  it('rejects feature flag keys used by another document or with invalid characters', async () => {
+    await payload.create({
+      collection: 'posts',
+      data: { enableABTesting: true, posthogFeatureFlagKey: 'unique-flag', title: 'First' },
+    })
+
+    await expect(
+      payload.create({
+        collection: 'posts',
+        data: { enableABTesting: true, posthogFeatureFlagKey: 'unique-flag', title: 'Second' },
+      }),
+    ).rejects.toThrow('posthogFeatureFlagKey')
+    await expect(
+      payload.create({
+        collection: 'posts',
+        data: { enableABTesting: true, posthogFeatureFlagKey: 'invalid flag', title: 'Third' },
+      }),
+    ).rejects.toThrow('posthogFeatureFlagKey')
+  })
 })
@@ -0,0 +1,93 @@
+import type { Config, Field, PayloadRequest } from 'payload'
+
+import { abTestingPlugin, createLocalProvider } from '../src/index.js'
+import {
+  getExperimentStatus,
+  validateExperimentStatusTransition,
+} from '../src/utilities/lifecycle.js'
+
+describe('Experiment lifecycle', () => {
+  it('treats documents without a status as running', () => {
+    expect(getExperimentStatus({})).toBe('running')
+    expect(getExperimentStatus({ experimentStatus: 'paused' })).toBe('paused')
+  })
+
+  it('allows the lifecycle transitions', () => {
+    expect(validateExperimentStatusTransition('running', 'draft')).toBe(true)
+    expect(validateExperimentStatusTransition('paused', 'running')).toBe(true)
+    expect(validateExperimentStatusTransition('running', 'paused')).toBe(true)
+    expect(validateExperimentStatusTransition('concluded', 'paused')).toBe(true)
+    expect(validateExperimentStatusTransition('archived', 'concluded')).toBe(true)
+    expect(validateExperimentStatusTransition('concluded', 'concluded')).toBe(true)
+  })
+
+  it('rejects skipped and backward transitions', () => {
+    expect(validateExperimentStatusTransition('concluded', 'draft')).toContain(
+      '"draft" to "concluded"',
+    )
+    expect(validateExperimentStatusTransition('running', 'concluded')).toContain('"archived"')
+    expect(validateExperimentStatusTransition('draft', 'archived')).toContain('none')
+    expect(validateExperimentStatusTransition('stopped', 'running')).toContain('Unknown')
+  })
+})
+
+describe('Experiment status of documents saved before statuses existed', () => {
+  const findField = (fields: Field[], name: string): Field | undefined => {
+    for (const field of fields) {
+      if ('name' in field && field.name === name) {
+        return field
+      }
+      const nested = [
+        ...('fields' in field ? field.fields : []),
+        ...(field.type === 'tabs' ? field.tabs.flatMap((tab) => tab.fields) : []),
+      ]
+      const found = findField(nested, name)
+      if (found) {
+        return found
+      }
+    }
+    return undefined
+  }
+
+  it('keeps a legacy document running and its flag active on update', async () => {
+    const provider = {
+      ...createLocalProvider(),
+      upsertFlag: jest.fn(() =>
+        Promise.resolve({ action: 'updated' as const, key: 'legacy-flag' }),
+      ),
+    }
+    const config = abTestingPlugin({ collections: ['pages'], provider })({
+      collections: [{ slug: 'pages', fields: [{ name: 'title', type: 'text' }] }],
+    } as Config)
+    const pages = config.collections!.find((collection) => collection.slug === 'pages')!
+    const [fillStatus] = findField(pages.fields, 'experimentStatus')!.hooks!.beforeValidate!
+
+    const req = {
+      context: {},
+      payload: { logger: { error: jest.fn(), info: jest.fn(), warn: jest.fn() } },
+    } as unknown as PayloadRequest
+    const originalDoc = {
+      id: 1,
+      enableABTesting: true,
+      experimentUrlFilter: '/legacy',
+      posthogFeatureFlagKey: 'legacy-flag',
+      title: 'Legacy',
+    }
+
+    const status = await fillStatus({ operation: 'update', originalDoc, req } as never)
+    expect(status).toBe('running')
+    expect(await fillStatus({ operation: 'create', req } as never)).toBe('draft')
+
+    const [copyToVariant] = pages.hooks!.beforeChange!
+    await copyToVariant({
+      collection: {} as never,
+      context: {},
+      data: { ...originalDoc, experimentStatus: status },
+      operation: 'update',
+      originalDoc,
+      req,
+    })
+
+    expect(provider.upsertFlag).toHaveBeenCalledWith(expect.objectContaining({ active: true }))
+  })
+})
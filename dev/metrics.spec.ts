@@ -0,0 +1,117 @@
+import type { CollectionConfig, Config, Field, SelectField, TabsField } from 'payload'
+
+import type { ABMetricConfig } from '../src/index.js'
+
+import { abTestingPlugin, createLocalProvider } from '../src/index.js'
+import {
+  DEFAULT_METRICS,
+  getExperimentMetrics,
+  validateExperimentMetrics,
+} from '../src/utilities/metrics.js'
+
+const catalog: ABMetricConfig[] = [
+  { name: 'signup', event: 'user_signed_up', label: 'Signup' },
+  {
+    name: 'revenue',
+    type: 'mean',
+    event: 'purchase',
+    properties: [{ key: 'plan', value: 'pro' }],
+    property: 'amount',
+  },
+]
+
+const findField = (fields: Field[], name: string) =>
+  fields.find((field) => 'name' in field && field.name === name)
+
+describe('Metric catalog', () => {
+  it('builds the metric select from the catalog', () => {
+    const config = abTestingPlugin({
+      collections: ['pages'],
+      metrics: catalog,
+      provider: createLocalProvider(),
+    })({ collections: [{ slug: 'pages', fields: [] } as CollectionConfig] } as Config)
+
+    const experimentsTab = (config.collections![0].fields[0] as TabsField).tabs[2]
+    const metricsField = findField(experimentsTab.fields, 'experimentMetrics') as {
+      fields: SelectField[]
+    }
+
+    expect(metricsField.fields[0].options).toStrictEqual([
+      { label: 'Signup', value: 'signup' },
+      { label: 'revenue', value: 'revenue' },
+      { label: 'Custom', value: 'custom' },
+    ])
+  })
+
+  it('resolves the selected metrics from the catalog', () => {
+    const metrics = getExperimentMetrics(
+      { experimentMetrics: [{ metric: 'signup' }, { metric: 'revenue' }] },
+      catalog,
+    )
+
+    expect(metrics[0]).toMatchObject({ name: 'signup', event: 'user_signed_up' })
+    expect(metrics[1]).toMatchObject({
+      name: 'revenue',
+      type: 'mean',
+      event: 'purchase',
+      properties: [{ key: 'plan', value: 'pro' }],
+      property: 'amount',
+    })
+  })
+
+  it('keeps the event of metrics missing from the catalog', () => {
+    expect(getExperimentMetrics({ experimentMetrics: [{ metric: 'cta_click' }] })).toMatchObject([
+      { name: 'cta_click', event: 'cta_click' },
+    ])
+    expect(
+      getExperimentMetrics({ experimentMetrics: [{ metric: 'legacy_event' }] }, DEFAULT_METRICS),
+    ).toMatchObject([{ name: 'legacy_event', event: 'legacy_event' }])
+  })
+
+  it('maps custom rows, including multi-step funnels', () => {
+    const metrics = getExperimentMetrics({
+      experimentMetrics: [
+        {
+          name: 'checkout',
+          type: 'funnel',
+          event: 'cart_viewed',
+          metric: 'custom',
+          steps: [{ event: 'checkout_started' }, { event: 'order_placed' }],
+        },
+        { type: 'mean', event: 'purchase', metric: 'custom', property: 'revenue' },
+      ],
+    })
+
+    expect(metrics).toMatchObject([
+      { name: 'checkout', event: 'cart_viewed', steps: ['checkout_started', 'order_placed'] },
+      { name: 'purchase', type: 'mean', event: 'purchase', property: 'revenue' },
+    ])
+  })
+
+  it('rejects incomplete custom metrics', () => {
+    expect(validateExperimentMetrics([{ name: 'signup', metric: 'custom' }])).toBe(
+      'Metric "signup" needs an event',
+    )
+    expect(
+      validateExperimentMetrics([
+        { name: 'revenue', type: 'mean', event: 'purchase', metric: 'custom' },
+      ]),
+    ).toBe('Metric "revenue" is a mean and needs a numeric event property')
+    expect(
+      validateExperimentMetrics([
+        { name: 'checkout', event: 'cart_viewed', metric: 'custom', steps: [{ event: '' }] },
+      ]),
+    ).toBe('Step 2 of metric "checkout" needs an event')
+    expect(validateExperimentMetrics([{ metric: 'cta_click' }])).toBe(true)
+  })
+
+  it('rejects an incomplete metric catalog', () => {
+    expect(() =>
+      abTestingPlugin({
+        collections: ['pages'],
+        metrics: [{ name: 'revenue', type: 'mean', event: 'purchase' }],
+        provider: createLocalProvider(),
+      })({ collections: [{ slug: 'pages', fields: [] } as CollectionConfig] } as Config),
+    ).toThrow('Metric "revenue" is a mean and needs a numeric event property')
+  })
+})
@@ -93,17 +93,33 @@ export default buildConfig({
   }),
   editor: lexicalEditor(),
   email: testEmailAdapter,
+  globals: [
+    {
+      slug: 'header',
+      fields: [
+        {
+          name: 'announcement',
+          type: 'text',
+        },
+      ],
+    },
+  ],
   onInit: async (payload) => {
     await seed(payload)
   },
   plugins: [
     abTestingPlugin({
+      auditLog: true,
+      collections: ['posts'],
+      events: true,
+      globals: ['header'],
       posthog: {
         apiKey: process.env.POSTHOG_PERSONAL_API_KEY || '',
-        projectId: process.env.POSTHOG_PROJECT_ID || '',
         host: process.env.POSTHOG_HOST || 'https://us.posthog.com',
+        projectId: process.env.POSTHOG_PROJECT_ID || '',
       },
-      collections: ['posts'],
+      scheduling: true,
+      stoppingRules: true,
     }),
   ],
   secret: process.env.PAYLOAD_SECRET || 'test-secret_key',
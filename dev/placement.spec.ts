@@ -0,0 +1,80 @@
+import type { CollectionConfig, Config, Field, TabsField } from 'payload'
+
+import type { ABFieldPlacement } from '../src/index.js'
+
+import { abTestingPlugin, createLocalProvider } from '../src/index.js'
+
+const pages: CollectionConfig = {
+  slug: 'pages',
+  admin: { useAsTitle: 'heading' },
+  fields: [
+    { name: 'heading', type: 'text' },
+    {
+      type: 'tabs',
+      tabs: [{ fields: [{ name: 'body', type: 'textarea' }], label: 'Body' }],
+    },
+  ],
+}
+
+const applyPlugin = (placement?: ABFieldPlacement) => {
+  const config = abTestingPlugin({
+    collections: { pages: { placement } },
+    provider: createLocalProvider(),
+  })({ collections: [pages] } as Config)
+
+  return config.collections!.find((collection) => collection.slug === 'pages')!
+}
+
+const labels = (fields: Field[]) =>
+  fields.map(
+    (field) => ('label' in field && field.label) || ('name' in field && field.name) || field.type,
+  )
+
+describe('Field placement', () => {
+  it('wraps the original fields in a Content tab by default', () => {
+    const collection = applyPlugin()
+    const tabs = (collection.fields[0] as TabsField).tabs
+
+    expect(collection.fields).toHaveLength(1)
+    expect(tabs.map((tab) => tab.label)).toStrictEqual([
+      'Content',
+      '📊 A/B Testing',
+      '🧪 Experiments',
+    ])
+  })
+
+  it('appends the tabs to the existing top-level tabs', () => {
+    const collection = applyPlugin('append-tabs')
+    const tabs = (collection.fields[3] as TabsField).tabs
+
+    expect(labels(collection.fields)).toStrictEqual([
+      'Enable A/B Testing',
+      'Discard Variant Content',
+      'heading',
+      'tabs',
+    ])
+    expect(tabs.map((tab) => tab.label)).toStrictEqual(['Body', '📊 A/B Testing', '🧪 Experiments'])
+  })
+
+  it('keeps the original layout in sidebar and collapsible placements', () => {
+    const sidebar = applyPlugin('sidebar').fields
+    const collapsible = applyPlugin('collapsible').fields
+
+    expect(labels(sidebar)).toStrictEqual([
+      'Enable A/B Testing',
+      'Discard Variant Content',
+      'heading',
+      'tabs',
+      '📊 A/B Testing',
+      '🧪 Experiments',
+    ])
+    expect(sidebar[4].admin?.position).toBe('sidebar')
+    expect(labels(collapsible)).toStrictEqual(labels(sidebar))
+    expect(collapsible[4].admin?.position).toBeUndefined()
+  })
+
+  it('never overrides useAsTitle', () => {
+    expect(applyPlugin().admin?.useAsTitle).toBe('heading')
+    expect(applyPlugin('collapsible').admin?.useAsTitle).toBe('heading')
+  })
+})
@@ -0,0 +1,81 @@
+import type { Config, GlobalConfig, PayloadRequest } from 'payload'
+
+import { abTestingPlugin, createLocalProvider } from '../src/index.js'
+
+const header: GlobalConfig = {
+  slug: 'header',
+  fields: [{ name: 'announcement', type: 'text' }],
+}
+
+const createProvider = () => ({
+  ...createLocalProvider(),
+  createExperiment: jest.fn(() => Promise.resolve({ id: 12 })),
+  upsertFlag: jest.fn(() => Promise.resolve({ action: 'updated' as const, key: 'header-flag' })),
+})
+
+const getRestoreHook = (provider: ReturnType<typeof createProvider>) => {
+  const config = abTestingPlugin({ collections: [], globals: ['header'], provider })({
+    globals: [header],
+  } as Config)
+
+  return config.globals!.find((global) => global.slug === 'header')!.hooks!.afterChange![0]
+}
+
+const createReq = (context: Record<string, unknown> = {}) =>
+  ({
+    context,
+    payload: {
+      logger: { error: jest.fn(), info: jest.fn() },
+      updateGlobal: jest.fn(() => Promise.resolve({})),
+    },
+  }) as unknown as PayloadRequest
+
+const restoredHeader = {
+  enableABTesting: true,
+  experimentMetrics: [{ metric: 'cta_click' }],
+  experimentStatus: 'running',
+  posthogFeatureFlagKey: 'header-flag',
+}
+
+describe('Version restore', () => {
+  it('leaves a save of a global that went through the change hooks alone', async () => {
+    const provider = createProvider()
+    const req = createReq({ abTestingBeforeChange: ['global:header'] })
+
+    await getRestoreHook(provider)({
+      context: req.context,
+      doc: restoredHeader,
+      global: {} as never,
+      previousDoc: restoredHeader,
+      req,
+    })
+
+    expect(provider.upsertFlag).not.toHaveBeenCalled()
+    expect(req.context.abTestingBeforeChange).toStrictEqual([])
+  })
+
+  it('syncs a restored global and keeps the fields generated by the sync', async () => {
+    const provider = createProvider()
+    const req = createReq()
+
+    const doc = await getRestoreHook(provider)({
+      context: req.context,
+      doc: restoredHeader,
+      global: {} as never,
+      previousDoc: {},
+      req,
+    })
+
+    expect(provider.upsertFlag).toHaveBeenCalledTimes(1)
+    expect(provider.createExperiment).toHaveBeenCalledTimes(1)
+    expect(doc.posthogExperimentId).toBe('12')
+    expect(typeof doc.experimentStartedAt).toBe('string')
+    expect(req.payload.updateGlobal).toHaveBeenCalledWith(
+      expect.objectContaining({
+        slug: 'header',
+        context: { abTestingLocaleSync: true },
+        data: expect.objectContaining({ posthogExperimentId: '12' }),
+      }),
+    )
+  })
+})
@@ -0,0 +1,46 @@
+import type { Payload } from 'payload'
+
+import { createLocalProvider } from '../src/index.js'
+import { loadExperimentResults } from '../src/utilities/results.js'
+
+const document = {
+  experimentMetrics: [
+    { name: 'Signups', event: 'sign_up', metric: 'custom' },
+    { name: 'Revenue', type: 'mean', event: 'purchase', metric: 'custom', property: 'amount' },
+  ],
+  posthogFeatureFlagKey: 'results-flag',
+}
+
+const load = (counts: Record<string, unknown>) =>
+  loadExperimentResults({} as Payload, document, {
+    provider: { ...createLocalProvider(), getResults: () => Promise.resolve(counts) } as never,
+  })
+
+describe('Experiment results', () => {
+  it('reads the counts of each metric by name', async () => {
+    const results = await load({
+      conversions: { Revenue: { control: 2, variant: 4 }, Signups: { control: 5, variant: 8 } },
+      exposures: { control: 10, variant: 10 },
+      values: { Revenue: { control: 50, variant: 120 } },
+    })
+
+    const [signups, revenue] = results.metrics
+    expect(signups.type).toBe('funnel')
+    expect(signups.variants.map((variant) => variant.conversions)).toStrictEqual([5, 8])
+    expect(signups.variants[0].mean).toBeUndefined()
+    expect(revenue.type).toBe('mean')
+    expect(revenue.variants.map((variant) => variant.mean)).toStrictEqual([5, 12])
+  })
+
+  it('never reports more conversions than exposures', async () => {
+    const results = await load({
+      conversions: { Signups: { control: 12, variant: 3 } },
+      exposures: { control: 10, variant: 10 },
+    })
+
+    const [control] = results.metrics[0].variants
+    expect(control.conversions).toBe(10)
+    expect(control.conversionRate).toBe(1)
+    expect(Number.isNaN(control.probabilityToBeBest)).toBe(false)
+  })
+})
@@ -0,0 +1,46 @@
+import type { CollectionConfig, Config, Field, RowField, TabsField } from 'payload'
+
+import { abTestingPlugin, createLocalProvider } from '../src/index.js'
+import { EXPERIMENT_SCHEDULE_TASK_SLUG } from '../src/tasks/schedule.js'
+
+const pages: CollectionConfig = {
+  slug: 'pages',
+  fields: [{ name: 'heading', type: 'text' }],
+}
+
+const applyPlugin = (scheduling?: boolean) =>
+  abTestingPlugin({
+    collections: ['pages'],
+    provider: createLocalProvider(),
+    scheduling,
+  })({ collections: [pages] } as Config)
+
+const getScheduleFields = (config: Config) => {
+  const collection = config.collections!.find((entity) => entity.slug === 'pages')!
+  const experimentsTab = (collection.fields[0] as TabsField).tabs[2]
+
+  return experimentsTab.fields
+    .filter((field): field is RowField => field.type === 'row')
+    .flatMap((row) => row.fields)
+    .map((field: Field) => ('name' in field ? field.name : field.type))
+}
+
+describe('Experiment scheduling', () => {
+  it('registers the schedule task and fields when enabled', () => {
+    const config = applyPlugin(true)
+
+    expect(config.jobs?.tasks?.map((task) => task.slug)).toStrictEqual([
+      EXPERIMENT_SCHEDULE_TASK_SLUG,
+    ])
+    expect(getScheduleFields(config)).toStrictEqual(
+      expect.arrayContaining(['experimentStartAt', 'experimentEndAt']),
+    )
+  })
+
+  it('leaves the jobs config untouched by default', () => {
+    const config = applyPlugin()
+
+    expect(config.jobs).toBeUndefined()
+    expect(getScheduleFields(config)).not.toContain('experimentStartAt')
+  })
+})
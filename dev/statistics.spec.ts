@@ -0,0 +1,59 @@
+import {
+  computeVariantStatistics,
+  normalQuantile,
+  probabilityToBeBest,
+  wilsonInterval,
+} from '../src/utilities/statistics.js'
+
+describe('Experiment statistics', () => {
+  it('computes normal quantiles', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2)
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 6)
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326, 3)
+  })
+
+  it('computes Wilson score intervals', () => {
+    const [lower, upper] = wilsonInterval(50, 100)
+
+    expect(lower).toBeCloseTo(0.4038, 3)
+    expect(upper).toBeCloseTo(0.5962, 3)
+    expect(wilsonInterval(0, 0)).toStrictEqual([0, 0])
+    expect(wilsonInterval(0, 10)[0]).toBe(0)
+  })
+
+  it('favours the variant with clearly more conversions', () => {
+    const [control, variant] = probabilityToBeBest([
+      { conversions: 100, exposures: 1000 },
+      { conversions: 150, exposures: 1000 },
+    ])
+
+    expect(variant).toBeGreaterThan(0.99)
+    expect(control + variant).toBeCloseTo(1, 6)
+  })
+
+  it('is undecided between identical variants and reproducible', () => {
+    const counts = [
+      { conversions: 30, exposures: 300 },
+      { conversions: 30, exposures: 300 },
+    ]
+
+    expect(probabilityToBeBest(counts)[0]).toBeCloseTo(0.5, 1)
+    expect(probabilityToBeBest(counts)).toStrictEqual(probabilityToBeBest(counts))
+  })
+
+  it('computes uplift against the control', () => {
+    const [control, variant] = computeVariantStatistics(
+      [
+        { conversions: 10, exposures: 100, key: 'control' },
+        { conversions: 12, exposures: 100, key: 'variant' },
+      ],
+      { controlKey: 'control' },
+    )
+
+    expect(control.uplift).toBeNull()
+    expect(control.conversionRate).toBeCloseTo(0.1, 6)
+    expect(variant.uplift).toBeCloseTo(0.2, 6)
+    expect(variant.confidenceInterval[0]).toBeLessThan(0.12)
+    expect(variant.confidenceInterval[1]).toBeGreaterThan(0.12)
+  })
+})
@@ -0,0 +1,70 @@
+import type { ExperimentResults } from '../src/utilities/results.js'
+
+import { computeVariantStatistics } from '../src/utilities/statistics.js'
+import { evaluateStoppingRules } from '../src/utilities/stopping.js'
+
+const buildResults = (control: number[], variant: number[]): ExperimentResults => ({
+  exposures: [
+    { name: 'Control', exposures: control[1], key: 'control' },
+    { name: 'Variant', exposures: variant[1], key: 'variant' },
+  ],
+  flagKey: 'stopping_flag',
+  metrics: [
+    {
+      name: 'Signup',
+      type: 'funnel',
+      event: 'signup',
+      variants: computeVariantStatistics(
+        [
+          { conversions: control[0], exposures: control[1], key: 'control' },
+          { conversions: variant[0], exposures: variant[1], key: 'variant' },
+        ],
+        { controlKey: 'control' },
+      ),
+    },
+  ],
+  source: 'events',
+})
+
+describe('Stopping rules', () => {
+  it('concludes once a variant reaches the target probability with enough exposures', () => {
+    const results = buildResults([100, 1000], [150, 1000])
+
+    expect(
+      evaluateStoppingRules({ minSamplePerVariant: 500, probabilityToBeBest: 95 }, { results }),
+    ).toStrictEqual(expect.objectContaining({ stop: true, winner: 'variant' }))
+    expect(
+      evaluateStoppingRules({ minSamplePerVariant: 5000, probabilityToBeBest: 95 }, { results })
+        .stop,
+    ).toBe(false)
+  })
+
+  it('keeps running while no variant is clearly better', () => {
+    const decision = evaluateStoppingRules(
+      { probabilityToBeBest: 95 },
+      { results: buildResults([100, 1000], [102, 1000]) },
+    )
+
+    expect(decision.stop).toBe(false)
+  })
+
+  it('concludes without a winner after the maximum duration', () => {
+    const decision = evaluateStoppingRules(
+      { maxDurationDays: 14, probabilityToBeBest: 95 },
+      {
+        now: new Date('2024-01-16T00:00:00.000Z'),
+        results: buildResults([100, 1000], [102, 1000]),
+        startedAt: '2024-01-01T00:00:00.000Z',
+      },
+    )
+
+    expect(decision).toStrictEqual({
+      reason: 'Reached the maximum duration of 14 days without a winner',
+      stop: true,
+    })
+  })
+
+  it('ignores a minimum sample on its own', () => {
+    expect(evaluateStoppingRules({ minSamplePerVariant: 10 }, {}).stop).toBe(false)
+  })
+})
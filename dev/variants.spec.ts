@@ -0,0 +1,29 @@
+import { getTrafficAllocation, validateTrafficAllocation } from '../src/utilities/variants.js'
+
+const shares = (document: Record<string, unknown>) =>
+  getTrafficAllocation(document).map((variant) => variant.trafficPercentage)
+
+describe('Traffic allocation', () => {
+  it('uses the editor split when it adds up to 100', () => {
+    const document = { controlTrafficPercentage: 70, variantTrafficPercentage: 30 }
+
+    expect(validateTrafficAllocation(document)).toBe(true)
+    expect(shares(document)).toStrictEqual([70, 30])
+  })
+
+  it('splits evenly when the editor split does not add up to 100', () => {
+    const document = { controlTrafficPercentage: 60, variantTrafficPercentage: 60 }
+
+    expect(validateTrafficAllocation(document)).toBe(
+      'Traffic percentages must add up to 100 (currently 120).',
+    )
+    expect(shares(document)).toStrictEqual([50, 50])
+    expect(
+      shares({
+        abVariants: [{ key: 'b', trafficPercentage: 10 }],
+        controlTrafficPercentage: 10,
+        variantTrafficPercentage: 10,
+      }),
+    ).toStrictEqual([34, 33, 33])
+  })
+})
@@ -0,0 +1,157 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Default slug of the experiment audit log collection
+ */
+export const DEFAULT_AUDIT_LOG_SLUG = 'ab-audit-log'
+
+/**
+ * Actions recorded in the audit log
+ */
+export const AUDIT_LOG_ACTIONS = [
+  { label: 'A/B testing enabled', value: 'enabled' },
+  { label: 'A/B testing disabled', value: 'disabled' },
+  { label: 'Status changed', value: 'status_changed' },
+  { label: 'URL filter generated', value: 'url_filter_generated' },
+  { label: 'PostHog request', value: 'posthog_request' },
+]
+
+/**
+ * Plugin-owned collection recording who enabled or changed an experiment, the requests sent
+ * to PostHog and the status transitions. Entries are written by the plugin only, so the
+ * collection is read-only: logged in users can read it, nobody can edit or delete entries.
+ */
+export const createAuditLogCollection = (
+  slug: string = DEFAULT_AUDIT_LOG_SLUG,
+): CollectionConfig => ({
+  slug,
+  access: {
+    create: () => false,
+    delete: () => false,
+    read: ({ req }) => Boolean(req.user),
+    update: () => false,
+  },
+  admin: {
+    defaultColumns: ['action', 'collection', 'documentId', 'userEmail', 'message', 'createdAt'],
+    description: 'Experiment changes and PostHog requests recorded by the A/B testing plugin.',
+    group: 'A/B Testing',
+    useAsTitle: 'message',
+  },
+  fields: [
+    {
+      name: 'action',
+      type: 'select',
+      index: true,
+      options: AUDIT_LOG_ACTIONS,
+      required: true,
+    },
+    {
+      name: 'message',
+      type: 'text',
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'collection',
+          type: 'text',
+          admin: {
+            description: 'Collection of the experiment document',
+          },
+          index: true,
+        },
+        {
+          name: 'global',
+          type: 'text',
+          admin: {
+            description: 'Global of the experiment',
+          },
+        },
+        {
+          name: 'documentId',
+          type: 'text',
+          admin: {
+            description: 'ID of the experiment document',
+          },
+          index: true,
+          label: 'Document ID',
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'userId',
+          type: 'text',
+          admin: {
+            description: 'Empty for changes made by jobs or the Local API without a user',
+          },
+          label: 'User ID',
+        },
+        {
+          name: 'userCollection',
+          type: 'text',
+        },
+        {
+          name: 'userEmail',
+          type: 'text',
+          index: true,
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'flagKey',
+          type: 'text',
+          index: true,
+        },
+        {
+          name: 'fromStatus',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.action === 'status_changed',
+          },
+        },
+        {
+          name: 'toStatus',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.action === 'status_changed',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      admin: {
+        condition: (data) => data?.action === 'posthog_request',
+      },
+      fields: [
+        {
+          name: 'requestMethod',
+          type: 'text',
+        },
+        {
+          name: 'requestPath',
+          type: 'text',
+        },
+        {
+          name: 'responseStatus',
+          type: 'number',
+        },
+      ],
+    },
+    {
+      name: 'request',
+      type: 'json',
+      admin: {
+        condition: (data) => data?.action === 'posthog_request',
+        description: 'Payload sent to PostHog',
+      },
+    },
+  ],
+  timestamps: true,
+})
@@ -0,0 +1,105 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Default slug of the first-party experiment events collection
+ */
+export const DEFAULT_EVENTS_SLUG = 'ab-events'
+
+/**
+ * Plugin-owned collection storing exposures and conversions.
+ * Events are written by the `/ab/events` endpoint, so they cannot be created or
+ * edited through the regular API; logged in users can read and delete them.
+ */
+export const createEventsCollection = (slug: string = DEFAULT_EVENTS_SLUG): CollectionConfig => ({
+  slug,
+  access: {
+    create: () => false,
+    delete: ({ req }) => Boolean(req.user),
+    read: ({ req }) => Boolean(req.user),
+    update: () => false,
+  },
+  admin: {
+    defaultColumns: ['flagKey', 'variant', 'eventType', 'metric', 'distinctId', 'createdAt'],
+    description: 'Experiment exposures and conversions recorded by the A/B testing plugin.',
+    group: 'A/B Testing',
+    useAsTitle: 'flagKey',
+  },
+  fields: [
+    {
+      name: 'flagKey',
+      type: 'text',
+      index: true,
+      required: true,
+    },
+    {
+      name: 'variant',
+      type: 'text',
+      index: true,
+      required: true,
+    },
+    {
+      name: 'distinctId',
+      type: 'text',
+      index: true,
+      label: 'Distinct ID',
+      required: true,
+    },
+    {
+      name: 'eventType',
+      type: 'select',
+      index: true,
+      options: [
+        { label: 'Exposure', value: 'exposure' },
+        { label: 'Conversion', value: 'conversion' },
+      ],
+      required: true,
+    },
+    {
+      name: 'metric',
+      type: 'text',
+      admin: {
+        condition: (data) => data?.eventType === 'conversion',
+        description: 'Metric the conversion counts towards',
+      },
+      index: true,
+    },
+    {
+      name: 'counted',
+      type: 'checkbox',
+      admin: {
+        description:
+          'First exposure of the distinct ID, or its first conversion on the metric after an exposure to the same variant. Only these events count in the results.',
+        readOnly: true,
+      },
+      defaultValue: false,
+      index: true,
+      label: 'Counted in Results',
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'collection',
+          type: 'text',
+          admin: {
+            description: 'Collection of the experiment document',
+          },
+        },
+        {
+          name: 'documentId',
+          type: 'text',
+          admin: {
+            description: 'ID of the experiment document',
+          },
+          index: true,
+          label: 'Document ID',
+        },
+      ],
+    },
+    {
+      name: 'properties',
+      type: 'json',
+    },
+  ],
+  timestamps: true,
+})
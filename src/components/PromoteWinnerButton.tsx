@@ -0,0 +1,101 @@
+'use client'
+
+import { Button, toast, useConfig, useDocumentInfo, useLocale } from '@payloadcms/ui'
+import React, { useState } from 'react'
+
+import { CONTROL_VARIANT_KEY, getDocumentVariants } from '../utilities/variants.js'
+
+/**
+ * Admin button that promotes a variant of the saved document through the promote endpoint
+ */
+export const PromoteWinnerButton: React.FC = () => {
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig()
+  const { id, collectionSlug, savedDocumentData } = useDocumentInfo()
+  const locale = useLocale()
+
+  // Promoting the control would keep the original content, so only variants are offered
+  const variants = getDocumentVariants(savedDocumentData || {}).filter(
+    (definition) => definition.key !== CONTROL_VARIANT_KEY,
+  )
+  const recordedWinner = savedDocumentData?.experimentWinner
+  const [variant, setVariant] = useState(
+    variants.some((definition) => definition.key === recordedWinner)
+      ? (recordedWinner as string)
+      : '',
+  )
+  const [promoting, setPromoting] = useState(false)
+
+  if (!id || !collectionSlug) {
+    return null
+  }
+
+  const promote = async () => {
+    const name = variants.find((definition) => definition.key === variant)?.name || variant
+    if (
+      !window.confirm(
+        `Promote "${name}"? Its content replaces the control content and the experiment is concluded.`,
+      )
+    ) {
+      return
+    }
+
+    setPromoting(true)
+    try {
+      const response = await fetch(
+        `${serverURL}${api}/ab/promote/${collectionSlug}/${id}${locale?.code ? `?locale=${locale.code}` : ''}`,
+        {
+          body: JSON.stringify({ variant }),
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'POST',
+        },
+      )
+      const result = (await response.json()) as { error?: string }
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to promote the variant')
+        return
+      }
+
+      toast.success(`Promoted "${name}"`)
+      window.location.reload()
+    } catch {
+      toast.error('Failed to promote the variant')
+    } finally {
+      setPromoting(false)
+    }
+  }
+
+  return (
+    <div className="field-type" style={{ alignItems: 'center', display: 'flex', gap: '0.5rem' }}>
+      <select
+        aria-label="Winning variant"
+        disabled={promoting}
+        onChange={(event) => setVariant(event.target.value)}
+        value={variant}
+      >
+        <option disabled value="">
+          Select the winning variant
+        </option>
+        {variants.map((definition) => (
+          <option key={definition.key} value={definition.key}>
+            {definition.name}
+          </option>
+        ))}
+      </select>
+      <Button
+        buttonStyle="secondary"
+        disabled={promoting || !variant}
+        onClick={() => void promote()}
+        size="small"
+      >
+        Promote Winner
+      </Button>
+    </div>
+  )
+}
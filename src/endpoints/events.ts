@@ -0,0 +1,184 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+
+import type { ABEventInput, ABEventType } from '../types/index.js'
+
+const EVENT_TYPES: ABEventType[] = ['conversion', 'exposure']
+
+// Keeps a single beacon from flooding the collection
+const MAX_EVENTS_PER_REQUEST = 50
+const MAX_STRING_LENGTH = 256
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+const isShortString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_STRING_LENGTH
+
+/**
+ * Validates a single event from the request body.
+ * Returns the event to store, or an error message.
+ */
+const parseEvent = (value: unknown): ABEventInput | string => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Each event must be an object'
+  }
+
+  const event = value as Record<string, unknown>
+
+  for (const field of ['flagKey', 'variant', 'distinctId'] as const) {
+    if (!isShortString(event[field])) {
+      return `"${field}" must be a non-empty string of at most ${MAX_STRING_LENGTH} characters`
+    }
+  }
+
+  if (!EVENT_TYPES.includes(event.eventType as ABEventType)) {
+    return `"eventType" must be one of: ${EVENT_TYPES.join(', ')}`
+  }
+
+  if (event.eventType === 'conversion' && !isShortString(event.metric)) {
+    return 'Conversions require a "metric"'
+  }
+
+  for (const field of ['metric', 'collection'] as const) {
+    if (event[field] !== undefined && !isShortString(event[field])) {
+      return `"${field}" must be a non-empty string of at most ${MAX_STRING_LENGTH} characters`
+    }
+  }
+
+  if (
+    event.documentId !== undefined &&
+    !isShortString(event.documentId) &&
+    typeof event.documentId !== 'number'
+  ) {
+    return '"documentId" must be a string or a number'
+  }
+
+  if (
+    event.properties !== undefined &&
+    (!event.properties || typeof event.properties !== 'object' || Array.isArray(event.properties))
+  ) {
+    return '"properties" must be an object'
+  }
+
+  return {
+    collection: event.collection as string | undefined,
+    distinctId: event.distinctId as string,
+    documentId: event.documentId,
+    eventType: event.eventType as ABEventType,
+    flagKey: event.flagKey as string,
+    metric: event.metric as string | undefined,
+    properties: event.properties as Record<string, unknown> | undefined,
+    variant: event.variant as string,
+  }
+}
+
+/**
+ * Reads the body as text first: `navigator.sendBeacon` sends JSON strings as `text/plain`
+ */
+const readBody = async (req: PayloadRequest): Promise<unknown> => {
+  const text = typeof req.text === 'function' ? await req.text() : ''
+  return text ? JSON.parse(text) : undefined
+}
+
+/**
+ * Whether an event counts in the results: the first exposure of a distinct ID to a flag, or
+ * its first conversion on a metric after an exposure to the same variant. Results are then
+ * plain counts of the counted events, which never exceed the exposures.
+ */
+const isCountedEvent = async (
+  req: PayloadRequest,
+  eventsSlug: string,
+  event: ABEventInput,
+): Promise<boolean> => {
+  const counted = (where: Record<string, unknown>) =>
+    req.payload.count({
+      collection: eventsSlug,
+      overrideAccess: true,
+      req,
+      where: {
+        counted: { equals: true },
+        distinctId: { equals: event.distinctId },
+        flagKey: { equals: event.flagKey },
+        ...where,
+      },
+    })
+
+  if (event.eventType === 'exposure') {
+    const { totalDocs } = await counted({ eventType: { equals: 'exposure' } })
+    return totalDocs === 0
+  }
+
+  const exposures = await counted({
+    eventType: { equals: 'exposure' },
+    variant: { equals: event.variant },
+  })
+  if (exposures.totalDocs === 0) {
+    return false
+  }
+
+  const conversions = await counted({
+    eventType: { equals: 'conversion' },
+    metric: { equals: event.metric },
+  })
+  return conversions.totalDocs === 0
+}
+
+/**
+ * Public endpoint ingesting first-party experiment events into the events collection.
+ * Accepts a single event or an array of events, e.g. from `navigator.sendBeacon`.
+ */
+export const createEventsEndpoints = (eventsSlug: string): Endpoint[] => [
+  {
+    handler: async (req) => {
+      let body: unknown
+      try {
+        body = await readBody(req)
+      } catch {
+        return jsonResponse({ error: 'Invalid JSON in request body' }, 400)
+      }
+
+      const rawEvents = Array.isArray(body) ? body : [body]
+      if (rawEvents.length === 0 || rawEvents.length > MAX_EVENTS_PER_REQUEST) {
+        return jsonResponse(
+          { error: `Send between 1 and ${MAX_EVENTS_PER_REQUEST} events per request` },
+          400,
+        )
+      }
+
+      const events: ABEventInput[] = []
+      for (const rawEvent of rawEvents) {
+        const event = parseEvent(rawEvent)
+        if (typeof event === 'string') {
+          return jsonResponse({ error: event }, 400)
+        }
+        events.push(event)
+      }
+
+      try {
+        for (const event of events) {
+          await req.payload.create({
+            collection: eventsSlug,
+            data: {
+              ...event,
+              counted: await isCountedEvent(req, eventsSlug, event),
+              documentId: event.documentId === undefined ? undefined : String(event.documentId),
+            },
+            overrideAccess: true,
+          })
+        }
+      } catch (error) {
+        req.payload.logger.error(
+          `[A/B Plugin] Failed to store experiment events: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        return jsonResponse({ error: 'Failed to store events' }, 500)
+      }
+
+      return jsonResponse({ created: events.length }, 201)
+    },
+    method: 'post',
+    path: '/ab/events',
+  },
+]
@@ -2,6 +2,12 @@ import type { PayloadRequest } from 'payload'
 
 import type { PostHogConfig } from '../types/index.js'
 
+import {
+  createPostHogApi,
+  deactivatePostHogFeatureFlag,
+  upsertPostHogFeatureFlag,
+} from '../providers/posthog.js'
+
 type SecureHandler = (req: PayloadRequest, ...args: any[]) => Promise<Response>
 
 export function withAuth(handler: SecureHandler) {
@@ -38,16 +44,54 @@ export function withAuth(handler: SecureHandler) {
   }
 }
 
-export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
-  const posthogApiKey = posthogConfig?.apiKey || process.env.POSTHOG_PERSONAL_API_KEY || ''
-  const posthogApiHost = posthogConfig?.host || process.env.POSTHOG_HOST || 'https://us.posthog.com'
-  const posthogProjectId = posthogConfig?.projectId || process.env.POSTHOG_PROJECT_ID || ''
-  type PostHogPropertyFilter = {
-    key: string
-    operator: string
-    type: string
-    value: any
+/**
+ * Fields of an experiment that can be updated through the API
+ */
+type ExperimentUpdate = {
+  description?: string
+  metrics?: Record<string, unknown>[]
+  name?: string
+}
+
+/**
+ * Picks the updatable fields of a request body. Resolves to an error message when the body
+ * holds none of them, or one of them has the wrong type.
+ */
+const parseExperimentUpdate = (body: unknown): ExperimentUpdate | string => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'The request body must be an object'
+  }
+
+  const { name, description, metrics } = body as Record<string, unknown>
+  if (name !== undefined && typeof name !== 'string') {
+    return '"name" must be a string'
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    return '"description" must be a string'
   }
+  if (
+    metrics !== undefined &&
+    (!Array.isArray(metrics) ||
+      !metrics.every((metric) => metric && typeof metric === 'object' && !Array.isArray(metric)))
+  ) {
+    return '"metrics" must be an array of objects'
+  }
+
+  const update: ExperimentUpdate = {
+    ...(name !== undefined ? { name } : {}),
+    ...(description !== undefined ? { description } : {}),
+    ...(metrics !== undefined ? { metrics: metrics as Record<string, unknown>[] } : {}),
+  }
+  if (Object.keys(update).length === 0) {
+    return 'Send at least one of "name", "description" or "metrics"'
+  }
+
+  return update
+}
+
+export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
+  const api = createPostHogApi(posthogConfig)
+
   // Helper function to parse request body consistently
   const parseRequestBody = async (request: {
     body: BodyInit | null | undefined
@@ -100,52 +144,29 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
     }
   }
 
-  // Helper function to validate PostHog configuration
-  const validatePostHogConfig = () => {
-    if (!posthogApiKey || !posthogProjectId) {
-      throw new Error('PostHog API key or Project ID not configured')
-    }
-  }
-
-  // Helper function to create PostHog API headers
-  const createPostHogHeaders = () => ({
-    Authorization: `Bearer ${posthogApiKey}`,
-    'Content-Type': 'application/json',
-  })
-
   // Return the array of endpoints
   return [
     // Fetch all feature flags
     {
       handler: withAuth(async (req) => {
         try {
-          validatePostHogConfig()
-
-          const response = await fetch(
-            `${posthogApiHost}/api/projects/${posthogProjectId}/feature_flags/`,
-            {
-              headers: createPostHogHeaders(),
-              method: 'GET',
-            },
-          )
+          const result = await api.listFeatureFlags()
 
-          if (!response.ok) {
-            const errorText = await response.text()
-            console.error(`PostHog API error ${response.status}: ${errorText}`)
+          if (!result.ok) {
+            console.error(`PostHog API error ${result.status}: ${result.errorText}`)
             return new Response(
               JSON.stringify({
-                details: errorText,
+                details: result.errorText,
                 error: 'Failed to fetch flags from PostHog',
               }),
               {
                 headers: { 'Content-Type': 'application/json' },
-                status: response.status,
+                status: result.status,
               },
             )
           }
 
-          const data = await response.json()
-          return new Response(JSON.stringify(data), {
+          return new Response(JSON.stringify(result.data), {
             headers: { 'Content-Type': 'application/json' },
             status: 200,
           })
@@ -170,8 +191,6 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
     {
       handler: withAuth(async (req) => {
         try {
-          validatePostHogConfig()
-
           // Ensure parseRequestBody always returns an object, even if req.json is undefined
           const body = (await parseRequestBody(req as any)) || {}
 
@@ -179,7 +198,15 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
           const name = body?.name
           const variantName = body?.variantName
           const docId = body?.docId
-          const urlFilter = body?.urlFilter //
+          const urlFilter = body?.urlFilter
+          // Optional list of variants for A/B/n tests, with or without the control
+          const variants: { key: string; name?: string; rollout_percentage?: number }[] =
+            Array.isArray(body?.variants)
+              ? body.variants.filter((variant: { key?: string }) => variant?.key)
+              : []
+          // Share of the audience that enters the experiment (null means everyone)
+          const rolloutPercentage =
+            typeof body?.rolloutPercentage === 'number' ? body.rolloutPercentage : null
           //console.log('Extracted values:', { key, name, variantName, docId })
 
           // Validate required parameters - Fixed logic
@@ -197,177 +224,85 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
             )
           }
 
-          // Generate feature flag key if not provided
-          let featureFlagKey = key
-          if (!featureFlagKey) {
-            const uniqueSuffix = Date.now() // or use a UUID
-            featureFlagKey = `posthog_ab_${docId}_${uniqueSuffix}`
-          }
-
-          const flagName = name || `A/B Test: ${docId}`
           const variantKey = variantName || 'variant'
-          // Start with a basic filters object
-
-          const filters: {
-            groups: {
-              properties: PostHogPropertyFilter[]
-              rollout_percentage: null | number
-            }[]
-            multivariate: {
-              variants: { key: string; name: string; rollout_percentage: number }[]
-            }
-          } = {
-            groups: [
-              {
-                properties: [],
-                rollout_percentage: null,
-              },
-            ],
-
-            multivariate: {
-              variants: [
-                {
-                  name: 'Control',
-                  key: 'control',
-                  rollout_percentage: 50,
-                },
-                {
-                  name: variantKey.charAt(0).toUpperCase() + variantKey.slice(1),
-                  key: variantKey,
-                  rollout_percentage: 50,
-                },
-              ],
-            },
-          }
-
-          // --- NEW: Add URL filter if present
-          if (urlFilter) {
-            filters.groups[0].properties.push({
-              type: 'person',
-              key: '$current_url',
-              operator: 'regex',
-              value: urlFilter,
-            })
-          }
+          const flagVariants =
+            variants.length > 0
+              ? variants
+              : [
+                  {
+                    name: variantKey.charAt(0).toUpperCase() + variantKey.slice(1),
+                    key: variantKey,
+                  },
+                ]
+          const allVariants: typeof variants = flagVariants.some(
+            (variant) => variant.key === 'control',
+          )
+            ? flagVariants
+            : [{ name: 'Control', key: 'control' }, ...flagVariants]
 
-          const featureFlagConfig = {
-            name: flagName,
-            active: true,
-            ensure_persistence: true,
-            filters,
-            key: featureFlagKey,
-          }
-          // Create feature flag configuration
-          // const featureFlagConfig = {
-          //   name: flagName,
-          //   active: true,
-          //   ensure_persistence: true,
-          //   filters: {
-          //     groups: [
-          //       {
-          //         properties: [],
-          //         rollout_percentage: null,
-          //       },
-          //     ],
-          //     multivariate: {
-          //       variants: [
-          //         {
-          //           name: 'Control',
-          //           key: 'control',
-          //           rollout_percentage: 50,
-          //         },
-          //         {
-          //           name: variantKey.charAt(0).toUpperCase() + variantKey.slice(1),
-          //           key: variantKey,
-          //           rollout_percentage: 50,
-          //         },
-          //       ],
-          //     },
-          //   },
-          //   key: featureFlagKey,
-          // }
-
-          // Check if flag already exists
-          const existingFlagResponse = await fetch(
-            `${posthogApiHost}/api/projects/${posthogProjectId}/feature_flags/?key=${featureFlagKey}`,
-            {
-              headers: createPostHogHeaders(),
-              method: 'GET',
-            },
+          // Use the provided split when every variant has one, otherwise split the traffic evenly,
+          // giving any remainder to the first variants so it sums to 100
+          const hasTrafficSplit = allVariants.every(
+            (variant) => typeof variant.rollout_percentage === 'number',
           )
+          const baseShare = Math.floor(100 / allVariants.length)
+          const remainder = 100 - baseShare * allVariants.length
 
-          let existingFlag = null
-          if (existingFlagResponse.ok) {
-            const existingFlags = await existingFlagResponse.json()
-            existingFlag = existingFlags.results?.find(
-              (f: { key: any }) => f.key === featureFlagKey,
+          if (hasTrafficSplit) {
+            const total = allVariants.reduce(
+              (sum, variant) => sum + (variant.rollout_percentage || 0),
+              0,
             )
-          }
-
-          let apiResponse
-          let responseStatus = 200
-
-          if (existingFlag) {
-            // Update existing flag
-            //console.log(`Updating existing feature flag: ${featureFlagKey}`)
-
-            const updateResponse = await fetch(
-              `${posthogApiHost}/api/projects/${posthogProjectId}/feature_flags/${existingFlag.id}/`,
-              {
-                body: JSON.stringify({
-                  name: featureFlagConfig.name,
-                  active: true,
-                  filters: featureFlagConfig.filters,
+            if (total !== 100) {
+              return new Response(
+                JSON.stringify({
+                  error: `Variant rollout percentages must add up to 100 (received ${total})`,
                 }),
-                headers: createPostHogHeaders(),
-                method: 'PATCH',
-              },
-            )
-
-            if (!updateResponse.ok) {
-              const errorText = await updateResponse.text()
-              throw new Error(
-                `Failed to update feature flag: ${updateResponse.status} - ${errorText}`,
+                {
+                  headers: { 'Content-Type': 'application/json' },
+                  status: 400,
+                },
               )
             }
+          }
 
-            apiResponse = await updateResponse.json()
-            //console.log(`Successfully updated PostHog feature flag: ${featureFlagKey}`)
-          } else {
-            // Create new flag
-            //console.log(`Creating new feature flag: ${featureFlagKey}`)
-
-            const createResponse = await fetch(
-              `${posthogApiHost}/api/projects/${posthogProjectId}/feature_flags/`,
+          if (rolloutPercentage !== null && (rolloutPercentage < 0 || rolloutPercentage > 100)) {
+            return new Response(
+              JSON.stringify({
+                error: 'Rollout percentage must be between 0 and 100',
+              }),
               {
-                body: JSON.stringify(featureFlagConfig),
-                headers: createPostHogHeaders(),
-                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                status: 400,
               },
             )
-
-            if (!createResponse.ok) {
-              const errorText = await createResponse.text()
-              throw new Error(
-                `Failed to create feature flag: ${createResponse.status} - ${errorText}`,
-              )
-            }
-
-            apiResponse = await createResponse.json()
-            responseStatus = 201
-            //console.log(`Successfully created PostHog feature flag: ${featureFlagKey}`)
           }
 
+          const result = await upsertPostHogFeatureFlag(api, {
+            name,
+            docId,
+            key,
+            rolloutPercentage: rolloutPercentage ?? undefined,
+            urlFilter,
+            variants: allVariants.map((variant, index) => ({
+              name: variant.name || variant.key.charAt(0).toUpperCase() + variant.key.slice(1),
+              key: variant.key,
+              rolloutPercentage: hasTrafficSplit
+                ? (variant.rollout_percentage as number)
+                : baseShare + (index < remainder ? 1 : 0),
+            })),
+          })
+
           return new Response(
             JSON.stringify({
-              action: existingFlag ? 'updated' : 'created',
-              featureFlag: apiResponse,
-              key: featureFlagKey,
+              action: result.action,
+              featureFlag: result.featureFlag,
+              key: result.key,
               message: 'Feature flag processed successfully',
             }),
             {
               headers: { 'Content-Type': 'application/json' },
-              status: responseStatus,
+              status: result.action === 'created' ? 201 : 200,
             },
           )
         } catch (error) {
@@ -391,8 +326,6 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
     {
       handler: withAuth(async (req) => {
         try {
-          validatePostHogConfig()
-
           const body = await parseRequestBody(req as any)
           const { featureFlagKey } = body
 
@@ -408,36 +341,9 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
             )
           }
 
-          // Get the existing flag to get its ID
-          const getResponse = await fetch(
-            `${posthogApiHost}/api/projects/${posthogProjectId}/feature_flags/?key=${featureFlagKey}`,
-            {
-              headers: createPostHogHeaders(),
-              method: 'GET',
-            },
-          )
+          const result = await deactivatePostHogFeatureFlag(api, featureFlagKey)
 
-          if (!getResponse.ok) {
-            const errorText = await getResponse.text()
-            console.error(
-              `Failed to fetch flag for deactivation: ${getResponse.status} - ${errorText}`,
-            )
-            return new Response(
-              JSON.stringify({
-                details: errorText,
-                error: `Failed to find flag ${featureFlagKey} for deactivation`,
-              }),
-              {
-                headers: { 'Content-Type': 'application/json' },
-                status: getResponse.status,
-              },
-            )
-          }
-
-          const existingFlags = await getResponse.json()
-          const existingFlag = existingFlags.results?.[0]
-
-          if (!existingFlag?.id) {
+          if (!result.found) {
             return new Response(
               JSON.stringify({
                 message: `Feature flag ${featureFlagKey} not found`,
@@ -449,29 +355,9 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
             )
           }
 
-          // Deactivate the flag
-          const deactivateResponse = await fetch(
-            `${posthogApiHost}/api/projects/${posthogProjectId}/feature_flags/${existingFlag.id}/`,
-            {
-              body: JSON.stringify({ active: false }),
-              headers: createPostHogHeaders(),
-              method: 'PATCH',
-            },
-          )
-
-          if (!deactivateResponse.ok) {
-            const errorText = await deactivateResponse.text()
-            throw new Error(
-              `Failed to deactivate feature flag: ${deactivateResponse.status} - ${errorText}`,
-            )
-          }
-
-          const apiResponse = await deactivateResponse.json()
-          // console.log(`Successfully deactivated PostHog feature flag: ${featureFlagKey}`)
-
           return new Response(
             JSON.stringify({
-              featureFlag: apiResponse,
+              featureFlag: result.featureFlag,
               key: featureFlagKey,
               message: 'Feature flag deactivated successfully',
             }),
@@ -484,7 +370,7 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
           console.error('Error in /posthog/feature-flags/deactivate POST:', error)
           return new Response(
             JSON.stringify({
-              error: error instanceof Error ? error.message : 'Internal server errorW',
+              error: error instanceof Error ? error.message : 'Internal server error',
             }),
             {
               headers: { 'Content-Type': 'application/json' },
@@ -496,12 +382,10 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
       method: 'post',
       path: '/posthog/feature-flags/deactivate',
     },
-    // NEW: Endpoint to create a PostHog experiment
+    // Create a PostHog experiment
     {
       handler: withAuth(async (req) => {
         try {
-          validatePostHogConfig()
-
           const body = (await parseRequestBody(req as any)) || {}
           const { name, feature_flag_key, ...optionalParams } = body
 
@@ -518,39 +402,42 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
             )
           }
 
-          // Prepare the payload for the PostHog API
-          const payload = {
+          // A flag has a single experiment, PATCH the existing one instead of creating a duplicate
+          const existing = await api.findExperimentByFlagKey(feature_flag_key)
+          if (existing.ok && existing.data) {
+            return new Response(
+              JSON.stringify({
+                id: existing.data.id,
+                error: `An experiment already exists for feature flag ${feature_flag_key}`,
+              }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: 409,
+              },
+            )
+          }
+
+          const result = await api.createExperiment({
             name,
             feature_flag_key,
             ...optionalParams, // Spread any other provided parameters
-          }
-
-          const response = await fetch(
-            `${posthogApiHost}/api/projects/${posthogProjectId}/experiments/`,
-            {
-              body: JSON.stringify(payload),
-              headers: createPostHogHeaders(),
-              method: 'POST',
-            },
-          )
+          })
 
-          if (!response.ok) {
-            const errorText = await response.text()
-            console.error(`PostHog API error ${response.status}: ${errorText}`)
+          if (!result.ok) {
+            console.error(`PostHog API error ${result.status}: ${result.errorText}`)
             return new Response(
               JSON.stringify({
-                details: errorText,
+                details: result.errorText,
                 error: 'Failed to create experiment in PostHog',
               }),
               {
                 headers: { 'Content-Type': 'application/json' },
-                status: response.status,
+                status: result.status,
               },
             )
           }
 
-          const data = await response.json()
-          return new Response(JSON.stringify(data), {
+          return new Response(JSON.stringify(result.data), {
             headers: { 'Content-Type': 'application/json' },
             status: 201,
           })
@@ -574,38 +461,76 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
     {
       handler: withAuth(async (req) => {
         try {
-          validatePostHogConfig()
+          const result = await api.listExperiments()
 
-          const response = await fetch(
-            `${posthogApiHost}/api/projects/${posthogProjectId}/experiments/`,
+          if (!result.ok) {
+            console.error(`PostHog API error ${result.status}: ${result.errorText}`)
+            return new Response(
+              JSON.stringify({
+                details: result.errorText,
+                error: 'Failed to fetch experiments from PostHog',
+              }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: result.status,
+              },
+            )
+          }
+
+          return new Response(JSON.stringify(result.data), {
+            headers: { 'Content-Type': 'application/json' },
+            status: 200,
+          })
+        } catch (error) {
+          console.error('Error in /posthog/experiments GET:', error)
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : 'Internal server error',
+            }),
             {
-              headers: createPostHogHeaders(),
-              method: 'GET',
+              headers: { 'Content-Type': 'application/json' },
+              status: 500,
             },
           )
+        }
+      }),
+      method: 'get',
+      path: '/posthog/experiments',
+    },
+    // Fetch a single experiment
+    {
+      handler: withAuth(async (req) => {
+        try {
+          const id = req.routeParams?.id as string | undefined
+          if (!id) {
+            return new Response(JSON.stringify({ error: 'Missing experiment ID' }), {
+              headers: { 'Content-Type': 'application/json' },
+              status: 400,
+            })
+          }
 
-          if (!response.ok) {
-            const errorText = await response.text()
-            console.error(`PostHog API error ${response.status}: ${errorText}`)
+          const result = await api.getExperiment(id)
+
+          if (!result.ok) {
+            console.error(`PostHog API error ${result.status}: ${result.errorText}`)
             return new Response(
               JSON.stringify({
-                details: errorText,
-                error: 'Failed to fetch experiments from PostHog',
+                details: result.errorText,
+                error: 'Failed to fetch experiment from PostHog',
               }),
               {
                 headers: { 'Content-Type': 'application/json' },
-                status: response.status,
+                status: result.status,
               },
             )
           }
 
-          const data = await response.json()
-          return new Response(JSON.stringify(data), {
+          return new Response(JSON.stringify(result.data), {
             headers: { 'Content-Type': 'application/json' },
             status: 200,
           })
         } catch (error) {
-          console.error('Error in /posthog/experiments GET:', error)
+          console.error('Error in /posthog/experiments/:id GET:', error)
           return new Response(
             JSON.stringify({
               error: error instanceof Error ? error.message : 'Internal server error',
@@ -618,7 +543,121 @@ export const createPostHogEndpoints = (posthogConfig?: PostHogConfig) => {
         }
       }),
       method: 'get',
-      path: '/posthog/experiments',
+      path: '/posthog/experiments/:id',
+    },
+    // Update a single experiment, e.g. its name, description or metrics
+    {
+      handler: withAuth(async (req) => {
+        try {
+          const id = req.routeParams?.id as string | undefined
+          if (!id) {
+            return new Response(JSON.stringify({ error: 'Missing experiment ID' }), {
+              headers: { 'Content-Type': 'application/json' },
+              status: 400,
+            })
+          }
+
+          let body: unknown
+          try {
+            body = typeof req.json === 'function' ? await req.json() : undefined
+          } catch {
+            return new Response(JSON.stringify({ error: 'Invalid JSON in request body' }), {
+              headers: { 'Content-Type': 'application/json' },
+              status: 400,
+            })
+          }
+
+          const update = parseExperimentUpdate(body)
+          if (typeof update === 'string') {
+            return new Response(JSON.stringify({ error: update }), {
+              headers: { 'Content-Type': 'application/json' },
+              status: 400,
+            })
+          }
+
+          const result = await api.updateExperiment(id, update)
+
+          if (!result.ok) {
+            console.error(`PostHog API error ${result.status}: ${result.errorText}`)
+            return new Response(
+              JSON.stringify({
+                details: result.errorText,
+                error: 'Failed to update experiment in PostHog',
+              }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: result.status,
+              },
+            )
+          }
+
+          return new Response(JSON.stringify(result.data), {
+            headers: { 'Content-Type': 'application/json' },
+            status: 200,
+          })
+        } catch (error) {
+          console.error('Error in /posthog/experiments/:id PATCH:', error)
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : 'Internal server error',
+            }),
+            {
+              headers: { 'Content-Type': 'application/json' },
+              status: 500,
+            },
+          )
+        }
+      }),
+      method: 'patch',
+      path: '/posthog/experiments/:id',
+    },
+    // Delete a single experiment, its feature flag is kept
+    {
+      handler: withAuth(async (req) => {
+        try {
+          const id = req.routeParams?.id as string | undefined
+          if (!id) {
+            return new Response(JSON.stringify({ error: 'Missing experiment ID' }), {
+              headers: { 'Content-Type': 'application/json' },
+              status: 400,
+            })
+          }
+
+          const result = await api.deleteExperiment(id)
+
+          if (!result.ok) {
+            console.error(`PostHog API error ${result.status}: ${result.errorText}`)
+            return new Response(
+              JSON.stringify({
+                details: result.errorText,
+                error: 'Failed to delete experiment from PostHog',
+              }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: result.status,
+              },
+            )
+          }
+
+          return new Response(JSON.stringify({ id, message: 'Experiment deleted successfully' }), {
+            headers: { 'Content-Type': 'application/json' },
+            status: 200,
+          })
+        } catch (error) {
+          console.error('Error in /posthog/experiments/:id DELETE:', error)
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : 'Internal server error',
+            }),
+            {
+              headers: { 'Content-Type': 'application/json' },
+              status: 500,
+            },
+          )
+        }
+      }),
+      method: 'delete',
+      path: '/posthog/experiments/:id',
     },
   ]
 }
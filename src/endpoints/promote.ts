@@ -0,0 +1,131 @@
+import type { Endpoint, Field } from 'payload'
+
+import { validateExperimentStatusTransition } from '../utilities/lifecycle.js'
+import {
+  CONTROL_VARIANT_KEY,
+  getDocumentVariants,
+  getPromotedContent,
+} from '../utilities/variants.js'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+/**
+ * Promotes the winning variant of a document: its content is merged into the control fields,
+ * the experiment is concluded, which deactivates its flag, and the winner is recorded.
+ *
+ * Only the fields copied into the variants are promoted, in the locale of the request.
+ * The update runs with the user's access, so editors can only promote what they can edit.
+ */
+export const createPromoteEndpoints = ({
+  collectionContentFields,
+  collectionSlugs,
+  draftCollectionSlugs,
+}: {
+  /**
+   * Variant field trees per collection, filled once the collections are configured
+   */
+  collectionContentFields: Record<string, Field[]>
+  collectionSlugs: string[]
+  draftCollectionSlugs: string[]
+}): Endpoint[] => [
+  {
+    handler: async (req) => {
+      if (!req.user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401)
+      }
+
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      if (!collectionSlugs.includes(collection)) {
+        return jsonResponse({ error: `A/B testing is not enabled for "${collection}"` }, 404)
+      }
+
+      let body: { variant?: unknown }
+      try {
+        body = JSON.parse((await req.text?.()) || '{}') as { variant?: unknown }
+      } catch {
+        return jsonResponse({ error: 'Invalid JSON body' }, 400)
+      }
+
+      const variant = body.variant
+      if (typeof variant !== 'string' || !variant) {
+        return jsonResponse({ error: 'Provide the key of the winning variant as "variant"' }, 400)
+      }
+
+      let document: Record<string, unknown>
+      try {
+        document = await req.payload.findByID({
+          id,
+          collection,
+          depth: 0,
+          locale: req.locale,
+          overrideAccess: false,
+          req,
+        })
+      } catch {
+        return jsonResponse({ error: 'Document not found' }, 404)
+      }
+
+      if (!getDocumentVariants(document).some((definition) => definition.key === variant)) {
+        return jsonResponse({ error: `Unknown variant "${variant}"` }, 400)
+      }
+
+      const transition = validateExperimentStatusTransition('concluded', document.experimentStatus)
+      if (transition !== true) {
+        return jsonResponse({ error: transition }, 409)
+      }
+
+      const promotedContent = getPromotedContent(
+        document,
+        collectionContentFields[collection] || [],
+        variant,
+      )
+
+      try {
+        const updated = await req.payload.update({
+          id,
+          collection,
+          data: {
+            ...promotedContent,
+            // Drafts would keep the promoted content and the concluded status out of the live document
+            ...(draftCollectionSlugs.includes(collection) ? { _status: 'published' } : {}),
+            experimentStatus: 'concluded',
+            experimentWinner: variant,
+          },
+          depth: 0,
+          locale: req.locale,
+          overrideAccess: false,
+          req,
+        })
+
+        req.payload.logger.info(
+          `[A/B Plugin] Promoted variant "${variant}" of ${collection} ${id}${
+            variant === CONTROL_VARIANT_KEY ? ', the control content is kept' : ''
+          }`,
+        )
+
+        return jsonResponse(
+          {
+            id: updated.id,
+            experimentStatus: updated.experimentStatus,
+            experimentWinner: updated.experimentWinner,
+            promotedFields: Object.keys(promotedContent),
+          },
+          200,
+        )
+      } catch (error) {
+        req.payload.logger.error(
+          `[A/B Plugin] Failed to promote variant "${variant}" of ${collection} ${id}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        return jsonResponse({ error: 'Failed to promote the variant' }, 500)
+      }
+    },
+    method: 'post',
+    path: '/ab/promote/:collection/:id',
+  },
+]
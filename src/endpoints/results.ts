@@ -0,0 +1,92 @@
+import type { Endpoint } from 'payload'
+
+import type { ABMetricConfig, ExperimentProvider } from '../types/index.js'
+
+import { getResultsSource, loadExperimentResults } from '../utilities/results.js'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+/**
+ * Read-only endpoint computing the results of the experiment running on a document:
+ * exposures, conversion rates, confidence intervals, uplift and probability to be best
+ * per variant for every metric in `experimentMetrics`.
+ *
+ * Counts come from the first-party events collection when it is enabled,
+ * otherwise from the provider.
+ */
+export const createResultsEndpoints = ({
+  collectionSlugs,
+  eventsSlug,
+  metrics,
+  provider,
+}: {
+  collectionSlugs: string[]
+  eventsSlug?: string
+  /**
+   * Metric catalog the `experimentMetrics` rows select from
+   */
+  metrics?: ABMetricConfig[]
+  provider: ExperimentProvider
+}): Endpoint[] => [
+  {
+    handler: async (req) => {
+      if (!req.user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401)
+      }
+
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      if (!collectionSlugs.includes(collection)) {
+        return jsonResponse({ error: `A/B testing is not enabled for "${collection}"` }, 404)
+      }
+
+      let document: Record<string, unknown>
+      try {
+        document = await req.payload.findByID({
+          id,
+          collection,
+          depth: 0,
+          overrideAccess: false,
+          req,
+        })
+      } catch {
+        return jsonResponse({ error: 'Document not found' }, 404)
+      }
+
+      const flagKey = document.posthogFeatureFlagKey as string | undefined
+      if (!document.enableABTesting || !flagKey) {
+        return jsonResponse({ error: 'This document has no running experiment' }, 400)
+      }
+
+      const source = getResultsSource({ eventsSlug, provider })
+
+      if (!source) {
+        return jsonResponse(
+          {
+            error: `Enable the events collection, or use a provider that reports results (${provider.name} does not)`,
+          },
+          501,
+        )
+      }
+
+      try {
+        return jsonResponse(
+          await loadExperimentResults(req.payload, document, { eventsSlug, metrics, provider }),
+          200,
+        )
+      } catch (error) {
+        req.payload.logger.error(
+          `[A/B Plugin] Failed to load results for flag "${flagKey}": ${error instanceof Error ? error.message : String(error)}`,
+        )
+        return jsonResponse({ error: 'Failed to load experiment results' }, 502)
+      }
+    },
+    method: 'get',
+    path: '/ab/results/:collection/:id',
+  },
+]
@@ -0,0 +1 @@
+export { PromoteWinnerButton } from '../components/PromoteWinnerButton.js'
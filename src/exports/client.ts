@@ -10,19 +10,127 @@
 import { usePostHog } from 'posthog-js/react'
 import { useEffect } from 'react'
 
+import type { ABEventInput, ABVariantRow, ExperimentProvider } from '../types/index.js'
+
+import { mapBlockExperiments } from '../utilities/blocks.js'
+import { getExperimentStatus } from '../utilities/lifecycle.js'
+import { isExperimentLocale } from '../utilities/localization.js'
+import {
+  CONTROL_VARIANT_KEY,
+  getPrimaryVariantKey,
+  getVariantContent,
+  mergeVariantContent,
+} from '../utilities/variants.js'
+
+/**
+ * Sends first-party experiment events to the plugin's `/api/ab/events` endpoint.
+ * Uses `navigator.sendBeacon` when available so events are not lost when the page unloads.
+ */
+export const sendABEvent = (endpoint: string, events: ABEventInput | ABEventInput[]): void => {
+  // A plain string is sent as text/plain, which avoids a CORS preflight
+  const body = JSON.stringify(events)
+
+  if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+    if (navigator.sendBeacon(endpoint, body)) {
+      return
+    }
+  }
+
+  fetch(endpoint, {
+    body,
+    headers: { 'Content-Type': 'application/json' },
+    keepalive: true,
+    method: 'POST',
+  }).catch((error) => {
+    if (process.env.NODE_ENV === 'development') {
+      // eslint-disable-next-line no-console
+      console.error('A/B event tracking error:', error)
+    }
+  })
+}
+
+/**
+ * Records a conversion for the variant a visitor saw in the first-party events collection
+ * @param endpoint URL of the events endpoint, e.g. `/api/ab/events`
+ */
+export const trackABConversion = (
+  endpoint: string,
+  conversion: { metric: string } & Omit<ABEventInput, 'eventType'>,
+): void => sendABEvent(endpoint, { ...conversion, eventType: 'conversion' })
+
 type ABTrackingProps = {
+  /**
+   * Collection of the experiment document, stored with first-party events
+   */
+  collection?: string
   distinctId?: string // Optional — PostHog will assign one if not set
+  /**
+   * ID of the experiment document, stored with first-party events
+   */
+  documentId?: number | string
+  /**
+   * URL of the plugin's events endpoint, e.g. `/api/ab/events`.
+   * When set, the exposure is also stored in the first-party events collection.
+   */
+  eventsEndpoint?: string
   flagKey: string
+  /**
+   * Optional experimentation provider to capture the exposure with instead of PostHog.
+   * Requires a distinctId.
+   */
+  provider?: Pick<ExperimentProvider, 'captureExposure'>
   variant: string
 }
 
 /**
- * Client-side component that tracks A/B test variant exposure in PostHog
+ * Client-side component that tracks A/B test variant exposure in PostHog,
+ * or in the given experimentation provider, and optionally in the first-party events collection
  */
-export function TrackAB({ distinctId, flagKey, variant }: ABTrackingProps) {
+export function TrackAB({
+  collection,
+  distinctId,
+  documentId,
+  eventsEndpoint,
+  flagKey,
+  provider,
+  variant,
+}: ABTrackingProps) {
   const posthog = usePostHog()
 
   useEffect(() => {
+    if (!eventsEndpoint) {
+      return
+    }
+
+    // Fall back to PostHog's anonymous ID so first-party events can be joined with PostHog data
+    const eventDistinctId = distinctId || posthog?.get_distinct_id?.()
+    if (!eventDistinctId) {
+      return
+    }
+
+    sendABEvent(eventsEndpoint, {
+      collection,
+      distinctId: eventDistinctId,
+      documentId,
+      eventType: 'exposure',
+      flagKey,
+      variant,
+    })
+  }, [posthog, eventsEndpoint, collection, documentId, flagKey, variant, distinctId])
+
+  useEffect(() => {
+    if (provider) {
+      if (distinctId) {
+        provider.captureExposure({ distinctId, flagKey, variant }).catch((error) => {
+          if (process.env.NODE_ENV === 'development') {
+            // eslint-disable-next-line no-console
+            console.error('A/B exposure tracking error:', error)
+          }
+        })
+      }
+      return
+    }
+
     if (!posthog) {
       return
     }
@@ -45,28 +153,83 @@ export function TrackAB({ distinctId, flagKey, variant }: ABTrackingProps) {
         console.error('PostHog Feature Flag Error:', error)
       }
     }
-  }, [posthog, flagKey, variant, distinctId])
+  }, [posthog, provider, flagKey, variant, distinctId])
 
   return null
 }
 
+type PostHogFlagClient = {
+  capture: (event: string, properties: Record<string, unknown>) => void
+  getFeatureFlag?: (key: string) => boolean | null | string | undefined
+  isFeatureEnabled: (key: string) => boolean
+}
+
+/**
+ * Swaps the blocks running their own experiment for the variant PostHog assigned
+ */
+const resolveBlockVariants = <T>(document: T, posthog?: PostHogFlagClient): T => {
+  if (!posthog) {
+    return document
+  }
+
+  return mapBlockExperiments(document, (block) => {
+    const featureFlagKey = block.posthogFeatureFlagKey
+    if (!block.enableABTesting || !featureFlagKey || !block.abVariant) {
+      return block
+    }
+
+    try {
+      const flagValue = posthog.getFeatureFlag
+        ? posthog.getFeatureFlag(featureFlagKey)
+        : posthog.isFeatureEnabled(featureFlagKey)
+      const variantKey =
+        typeof flagValue === 'string'
+          ? flagValue
+          : flagValue === true
+            ? getPrimaryVariantKey(block)
+            : CONTROL_VARIANT_KEY
+      const variantContent = getVariantContent(block, variantKey)
+
+      posthog.capture(variantContent ? 'ab_variant_shown' : 'ab_control_shown', {
+        blockId: block.id,
+        featureFlagKey,
+        variant: variantKey,
+      })
+
+      return variantContent ? mergeVariantContent(block, variantContent) : block
+    } catch (_error) {
+      return block
+    }
+  })
+}
+
 export const getABTestVariant = <
   D extends {
     abVariant?: Record<string, unknown>
+    abVariants?: ABVariantRow[] | null
     enableABTesting?: boolean
+    experimentLocales?: null | string[]
     posthogFeatureFlagKey?: string
+    posthogVariantName?: string
   },
   T extends Record<string, unknown> = Record<string, unknown>,
 >(
   document: D & T,
-  posthog?: {
-    capture: (event: string, properties: Record<string, unknown>) => void
-    isFeatureEnabled: (key: string) => boolean
+  posthog?: PostHogFlagClient,
+  options?: {
+    /**
+     * Locale the document was fetched in, see `experimentLocales`
+     */
+    locale?: string
   },
 ): T => {
-  // If A/B testing is not enabled, return the original document
-  if (!document?.enableABTesting) {
-    return document
+  // If A/B testing is not enabled, or not for this locale, only blocks may run experiments
+  if (
+    !document?.enableABTesting ||
+    getExperimentStatus(document) !== 'running' ||
+    !isExperimentLocale(document, options?.locale)
+  ) {
+    return resolveBlockVariants(document, posthog)
   }
 
   // If PostHog is not available, return the original document
@@ -79,23 +242,29 @@ export const getABTestVariant = <
   const featureFlagKey = document.posthogFeatureFlagKey || `ab_test_${String(document.id)}`
 
   try {
-    // Check if the user should see the variant
-    const showVariant = posthog.isFeatureEnabled(featureFlagKey)
+    // Resolve the assigned variant key, falling back to a boolean check for simple clients
+    const flagValue = posthog.getFeatureFlag
+      ? posthog.getFeatureFlag(featureFlagKey)
+      : posthog.isFeatureEnabled(featureFlagKey)
+    const variantKey =
+      typeof flagValue === 'string'
+        ? flagValue
+        : flagValue === true
+          ? getPrimaryVariantKey(document)
+          : CONTROL_VARIANT_KEY
+    const variantContent = getVariantContent(document, variantKey)
 
-    // If the variant should be shown and it exists, merge it with the original document
-    if (showVariant && document.abVariant) {
+    // If a variant should be shown and it exists, merge it with the original document
+    if (variantContent) {
       // Capture that the variant was shown
       posthog.capture('ab_variant_shown', {
         documentId: document.id,
         featureFlagKey,
-        variant: document.posthogVariantName || 'variant',
+        variant: variantKey,
       })
 
-      // Return a merged document with the variant content
-      return {
-        ...document,
-        ...document.abVariant,
-      }
+      // Return a document with the variant content deep merged over the original
+      return resolveBlockVariants(mergeVariantContent(document, variantContent), posthog)
     }
 
     // Capture that the control was shown
@@ -108,5 +277,5 @@ export const getABTestVariant = <
   }
 
   // Default to the original document
-  return document
+  return resolveBlockVariants(document, posthog)
 }
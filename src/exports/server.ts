@@ -1,5 +1,22 @@
-import merge from 'lodash.merge'
-import { PostHog } from 'posthog-node'
+import type { Payload } from 'payload'
+
+import type { ABVariantRow, ExperimentProvider } from '../types/index.js'
+
+import { createLocalProvider } from '../providers/local.js'
+import { createPostHogProvider } from '../providers/posthog.js'
+import { findBlockExperiments, mapBlockExperiments } from '../utilities/blocks.js'
+import { getExperimentStatus } from '../utilities/lifecycle.js'
+import { isExperimentLocale } from '../utilities/localization.js'
+import {
+  CONTROL_VARIANT_KEY,
+  getExperimentRolloutPercentage,
+  getPrimaryVariantKey,
+  getTrafficAllocation,
+  getVariantContent,
+  mergeVariantContent,
+} from '../utilities/variants.js'
+
+export { createLocalProvider, createPostHogProvider }
 
 // --- NEW: Generic Cookie Accessor Interface ---
 export interface CookieAccessor {
@@ -35,11 +52,193 @@ export type ABTestedDocument<T extends Record<string, unknown>> = T & {
   posthogNewDistinctIdGenerated?: string // Only present if a new ID was generated
 }
 
-// --- Initialize PostHog server-side client ---
-const posthogClient = new PostHog(process.env.NEXT_PUBLIC_POSTHOG_KEY || '', {
-  host: process.env.POSTHOG_HOST || 'https://app.posthog.com',
+// --- Options for server-side variant resolution ---
+export interface ServerSideABOptions {
+  /**
+   * Provider used when the main provider fails or has no answer, e.g. `createLocalProvider()`
+   * to keep assigning variants from the document's traffic weights when PostHog is unreachable.
+   * Without it, the control is served.
+   */
+  fallbackProvider?: ExperimentProvider
+  /**
+   * Locale the document was fetched in. Experiments limited to other locales with
+   * `experimentLocales` serve the original document.
+   */
+  locale?: string
+  /**
+   * Experimentation provider used to evaluate the feature flag
+   * @default createPostHogProvider(), configured from environment variables
+   */
+  provider?: ExperimentProvider
+}
+
+// --- Default PostHog provider, created on first use ---
+let defaultProvider: ExperimentProvider | undefined
+const getDefaultProvider = () => {
+  if (!defaultProvider) {
+    defaultProvider = createPostHogProvider()
+  }
+  return defaultProvider
+}
+
+// --- Builds the person properties PostHog uses to evaluate release conditions ---
+const buildPersonProperties = (context?: RequestContext): Record<string, unknown> => {
+  const personProperties: Record<string, unknown> = {}
+
+  if (!context) {
+    return personProperties
+  }
+
+  // Add URL-related properties
+  if (context.url) {
+    const urlObj = new URL(context.url)
+    personProperties['$current_url'] = context.url
+    personProperties['$host'] = urlObj.hostname
+    personProperties['$pathname'] = urlObj.pathname
+  } else {
+    if (context.host) personProperties['$host'] = context.host
+    if (context.pathname) personProperties['$pathname'] = context.pathname
+  }
+
+  // Add any custom headers that might be used in release conditions
+  if (context.headers) {
+    Object.entries(context.headers).forEach(([key, value]) => {
+      personProperties[`$header_${key.toLowerCase().replace(/-/g, '_')}`] = value
+    })
+  }
+
+  return personProperties
+}
+
+type FlagResponse = Awaited<ReturnType<ExperimentProvider['getVariant']>>
+
+// --- Evaluates a flag with the provider, falling back to the fallback provider ---
+const evaluateFlag = async (
+  provider: ExperimentProvider,
+  variantArgs: Parameters<ExperimentProvider['getVariant']>[0],
+  options?: ServerSideABOptions,
+): Promise<FlagResponse> => {
+  let flagResponse: FlagResponse
+  try {
+    flagResponse = await provider.getVariant(variantArgs)
+  } catch (error) {
+    if (!options?.fallbackProvider) {
+      throw error
+    }
+    console.warn(
+      `[A/B Plugin] Server-side: ${provider.name} failed for flag "${variantArgs.flagKey}", using ${options.fallbackProvider.name}:`,
+      error,
+    )
+    flagResponse = undefined
+  }
+
+  // An undefined response means the provider had no answer, e.g. because it is unreachable
+  if (flagResponse === undefined && options?.fallbackProvider) {
+    flagResponse = await options.fallbackProvider.getVariant(variantArgs)
+  }
+
+  return flagResponse
+}
+
+// --- Maps a flag response to a variant key, handling both boolean and string variants ---
+const toVariantKey = (
+  flagResponse: FlagResponse,
+  document: Parameters<typeof getPrimaryVariantKey>[0],
+): string => {
+  if (flagResponse === true) {
+    return getPrimaryVariantKey(document)
+  }
+
+  // Use the exact string returned by PostHog
+  if (typeof flagResponse === 'string') {
+    return flagResponse
+  }
+
+  return CONTROL_VARIANT_KEY
+}
+
+// --- Evaluates the traffic allocation stored on a document or block for the provider ---
+const getVariantArgs = (
+  document: Parameters<typeof getTrafficAllocation>[0],
+  args: { distinctId: string; flagKey: string; personProperties: Record<string, unknown> },
+) => ({
+  ...args,
+  rolloutPercentage: getExperimentRolloutPercentage(document),
+  variants: getTrafficAllocation(document).map(({ name, key, trafficPercentage }) => ({
+    name,
+    key,
+    rolloutPercentage: trafficPercentage,
+  })),
 })
 
+/**
+ * Swaps the blocks running their own experiment for the variant assigned to the visitor.
+ * Blocks sharing a flag key get the same variant.
+ */
+const resolveBlockVariants = async <T extends Record<string, unknown>>(
+  document: ABTestedDocument<T>,
+  cookies: CookieAccessor,
+  context?: RequestContext,
+  options?: ServerSideABOptions,
+): Promise<ABTestedDocument<T>> => {
+  const blocks = findBlockExperiments(document).filter(
+    (block) => block.enableABTesting && block.posthogFeatureFlagKey && block.abVariant,
+  )
+
+  if (blocks.length === 0) {
+    return document
+  }
+
+  const provider = options?.provider || getDefaultProvider()
+  let newDistinctIdGenerated = document.posthogNewDistinctIdGenerated
+  let distinctId = document.posthogServerDistinctId || cookies.get('_ph_id')?.value
+  if (!distinctId) {
+    newDistinctIdGenerated = crypto.randomUUID()
+    distinctId = newDistinctIdGenerated
+  }
+
+  const personProperties = buildPersonProperties(context)
+  const assignedVariantKeys: Record<string, string> = {}
+
+  for (const block of blocks) {
+    const flagKey = block.posthogFeatureFlagKey as string
+    if (assignedVariantKeys[flagKey]) {
+      continue
+    }
+
+    try {
+      const flagResponse = await evaluateFlag(
+        provider,
+        getVariantArgs(block, { distinctId, flagKey, personProperties }),
+        options,
+      )
+      assignedVariantKeys[flagKey] = toVariantKey(flagResponse, block)
+    } catch (error) {
+      console.warn(`[A/B Plugin] Server-side: Failed to evaluate block flag "${flagKey}":`, error)
+      assignedVariantKeys[flagKey] = CONTROL_VARIANT_KEY
+    }
+  }
+
+  return {
+    ...mapBlockExperiments(document, (block) => {
+      const assignedVariantKey = block.posthogFeatureFlagKey
+        ? assignedVariantKeys[block.posthogFeatureFlagKey]
+        : undefined
+      if (!assignedVariantKey) {
+        return block
+      }
+
+      const variantContent = getVariantContent(block, assignedVariantKey)
+      return {
+        ...(variantContent ? mergeVariantContent(block, variantContent) : block),
+        posthogAssignedVariantKey: assignedVariantKey,
+      }
+    }),
+    posthogNewDistinctIdGenerated: newDistinctIdGenerated,
+    posthogServerDistinctId: distinctId,
+  }
+}
+
 /**
  * Server-side helper to determine which A/B test variant to serve.
  * It reads cookies but DOES NOT set them directly. Cookie setting is delegated
@@ -48,24 +247,41 @@ const posthogClient = new PostHog(process.env.NEXT_PUBLIC_POSTHOG_KEY || '', {
  * @param document The original Payload CMS document.
  * @param cookies The cookies object from Next.js `cookies()`.
  * @param context Optional request context for proper feature flag evaluation with release conditions.
+ * @param options Optional settings, such as the experimentation provider to evaluate the flag with.
  * @returns The content to display (either the variant or the original), augmented with PostHog details for client-side cookie setting.
  */
 export const getServerSideABVariant = async <
   D extends {
     abVariant?: Record<string, unknown>
+    abVariants?: ABVariantRow[] | null
     enableABTesting?: boolean
+    experimentLocales?: null | string[]
     posthogFeatureFlagKey?: string
+    posthogVariantName?: string
   },
   T extends Record<string, unknown> = Record<string, unknown>,
 >(
   document: D & T,
   cookies: CookieAccessor, // Using the generic CookieAccessor interface
   context?: RequestContext, // Optional context for backwards compatibility
+  options?: ServerSideABOptions,
 ): Promise<ABTestedDocument<T>> => {
+  const provider = options?.provider || getDefaultProvider()
+
   // If A/B testing is not enabled, return the original document
 
-  if (!document?.enableABTesting || !document.abVariant) {
-    return document
+  // Draft, paused, concluded and archived experiments serve the original document
+  if (
+    !document?.enableABTesting ||
+    !document.abVariant ||
+    getExperimentStatus(document) !== 'running'
+  ) {
+    return resolveBlockVariants(document, cookies, context, options)
+  }
+
+  // The experiment does not run in this locale
+  if (!isExperimentLocale(document, options?.locale)) {
+    return resolveBlockVariants(document, cookies, context, options)
   }
 
   const featureFlagKey = document.posthogFeatureFlagKey || `ab_test_${String(document.id)}`
@@ -82,54 +298,30 @@ export const getServerSideABVariant = async <
     }
 
     // Build person properties with request context for proper release condition evaluation
-    const personProperties: Record<string, any> = {}
-
-    // Add request context properties that PostHog uses for release conditions
-    if (context) {
-      // Add URL-related properties
-      if (context.url) {
-        const urlObj = new URL(context.url)
-        personProperties['$current_url'] = context.url
-        personProperties['$host'] = urlObj.hostname
-        personProperties['$pathname'] = urlObj.pathname
-      } else {
-        if (context.host) personProperties['$host'] = context.host
-        if (context.pathname) personProperties['$pathname'] = context.pathname
-      }
-
-      // Add any custom headers that might be used in release conditions
-      if (context.headers) {
-        Object.entries(context.headers).forEach(([key, value]) => {
-          personProperties[`$header_${key.toLowerCase().replace(/-/g, '_')}`] = value
-        })
-      }
-    }
+    const personProperties = buildPersonProperties(context)
 
     console.log(
       `[A/B Plugin] Server-side: Evaluating flag "${featureFlagKey}" for distinct ID "${distinctId}" with context:`,
       { pathname: personProperties['$pathname'], host: personProperties['$host'] },
     )
 
-    // Pass person properties to PostHog for proper release condition evaluation
-    const flagResponse = await posthogClient.getFeatureFlag(featureFlagKey, distinctId, {
+    // Pass person properties to the provider for proper release condition evaluation,
+    // and the traffic allocation stored on the document for providers that bucket locally
+    const variantArgs = getVariantArgs(document, {
+      distinctId,
+      flagKey: featureFlagKey,
       personProperties,
-      groups: {},
     })
+
+    const flagResponse = await evaluateFlag(provider, variantArgs, options)
     console.log('Raw flag response:', flagResponse, 'Type:', typeof flagResponse)
-    // Handle both boolean and string variants
-    // Handle all possible response types
-    if (flagResponse === false || flagResponse === null || flagResponse === undefined) {
-      assignedVariantKey = 'control'
-    } else if (flagResponse === true) {
-      assignedVariantKey = 'variant'
-    } else if (typeof flagResponse === 'string') {
-      // Use the exact string returned by PostHog
-      assignedVariantKey = flagResponse
-    } else {
-      assignedVariantKey = 'control' // fallback
-    }
-    if (assignedVariantKey !== 'control') {
-      finalDocument = merge({}, document, document.abVariant) as T
+    assignedVariantKey = toVariantKey(flagResponse, document)
+
+    // Merge whichever variant PostHog assigned, from abVariant or the additional abVariants
+    // Deep merge the variant, fields it leaves empty keep the original content
+    const variantContent = getVariantContent(document, assignedVariantKey)
+    if (variantContent) {
+      finalDocument = mergeVariantContent(document, variantContent)
     } else {
       finalDocument = document
     }
@@ -144,11 +336,47 @@ export const getServerSideABVariant = async <
     if (!distinctId) distinctId = crypto.randomUUID()
   }
 
-  return {
-    ...finalDocument,
-    posthogAssignedVariantKey: assignedVariantKey,
-    posthogFeatureFlagKeyUsed: featureFlagKey,
-    posthogServerDistinctId: distinctId,
-    posthogNewDistinctIdGenerated: newDistinctIdGenerated,
-  }
+  // Blocks running their own experiment are resolved within the assigned document variant
+  return resolveBlockVariants(
+    {
+      ...finalDocument,
+      posthogAssignedVariantKey: assignedVariantKey,
+      posthogFeatureFlagKeyUsed: featureFlagKey,
+      posthogServerDistinctId: distinctId,
+      posthogNewDistinctIdGenerated: newDistinctIdGenerated,
+    },
+    cookies,
+    context,
+    options,
+  )
+}
+
+/**
+ * Server-side helper to serve the A/B test variant of a global, e.g. a header or banner.
+ * Fetches the global with the Local API, then resolves its variant like `getServerSideABVariant`.
+ *
+ * @param payload The Payload instance, e.g. from `getPayload({ config })`.
+ * @param slug The slug of the global.
+ * @param cookies The cookies object from Next.js `cookies()`.
+ * @param context Optional request context for proper feature flag evaluation with release conditions.
+ * @param options Optional settings, plus the depth and draft mode to fetch the global with.
+ * @returns The global content to display, augmented with PostHog details for client-side cookie setting.
+ */
+export const getServerSideABGlobalVariant = async <
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(
+  payload: Payload,
+  slug: string,
+  cookies: CookieAccessor,
+  context?: RequestContext,
+  options?: { depth?: number; draft?: boolean } & ServerSideABOptions,
+): Promise<ABTestedDocument<T>> => {
+  const global = (await payload.findGlobal({
+    slug,
+    depth: options?.depth,
+    draft: options?.draft,
+    locale: options?.locale,
+  })) as T
+
+  return getServerSideABVariant<Record<string, unknown>, T>(global, cookies, context, options)
 }
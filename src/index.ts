@@ -1,22 +1,122 @@
-import type { CollectionConfig, Config, DescriptionFunction, Field, GroupField } from 'payload'
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  CollectionConfig,
+  Config,
+  DescriptionFunction,
+  Field,
+  FieldHook,
+  GlobalAfterChangeHook,
+  GlobalConfig,
+  GroupField,
+  PayloadRequest,
+  Tab,
+  Validate,
+  ValidationFieldError,
+} from 'payload'
+
+import { ValidationError } from 'payload'
 
 import type {
   ABCollectionConfig,
+  ABGlobalConfig,
   ABTestingPluginOptions,
+  ABVariantRow,
   BeforeChangeHookArgs,
   ConfigWithHooks,
+  ExperimentDefinition,
+  ExperimentFlagDefinition,
+  ExperimentProvider,
+  ExperimentStatus,
   FieldWithRequired,
   PostHogConfig,
 } from './types/index.js'
 
+import { createAuditLogCollection, DEFAULT_AUDIT_LOG_SLUG } from './collections/auditLog.js'
+import { createEventsCollection, DEFAULT_EVENTS_SLUG } from './collections/events.js'
+import { createEventsEndpoints } from './endpoints/events.js'
 // Import Endpoints for PostHog API management - NOW IMPORT THE FUNCTION
 import { createPostHogEndpoints } from './endpoints/posthog.js'
+import { createPromoteEndpoints } from './endpoints/promote.js'
+import { createResultsEndpoints } from './endpoints/results.js'
+import { createPostHogProvider } from './providers/posthog.js'
+import { createExperimentScheduleTask, scheduleExperimentJobs } from './tasks/schedule.js'
+import { createStoppingRulesTask, ensureStoppingRulesRun } from './tasks/stoppingRules.js'
+import { createAuditLog } from './utilities/audit.js'
+import { findBlockExperiments, mapBlocksFields } from './utilities/blocks.js'
+import {
+  buildExperimentUrlFilter,
+  defaultResolveExperimentUrl,
+  resolveExperimentUrlFilter,
+} from './utilities/experimentUrl.js'
+import { getNamedFields, mapNamedFields, pickFieldData, selectFields } from './utilities/fields.js'
+import { type FeatureFlagKeyScope, validateFeatureFlagKey } from './utilities/flagKeys.js'
+import {
+  EXPERIMENT_STATUSES,
+  getExperimentStatus,
+  validateExperimentStatusTransition,
+} from './utilities/lifecycle.js'
+import { getLocaleCodes, isEmptyLocalizedValue } from './utilities/localization.js'
+import {
+  CUSTOM_METRIC,
+  DEFAULT_METRICS,
+  getExperimentMetrics,
+  validateExperimentMetrics,
+  validateMetricDefinition,
+} from './utilities/metrics.js'
+import {
+  getExperimentRolloutPercentage,
+  getTrafficAllocation,
+  hasVariantContent,
+  validateTrafficAllocation,
+  validateVariantKeys,
+} from './utilities/variants.js'
+
+export { createLocalProvider } from './providers/local.js'
+export { createPostHogProvider } from './providers/posthog.js'
+export type {
+  ABAuditLogConfig,
+  ABCollectionConfig,
+  ABDeleteCleanup,
+  ABEventInput,
+  ABEventsConfig,
+  ABEventType,
+  ABFieldPlacement,
+  ABGlobalConfig,
+  ABMetricConfig,
+  ABMetricPropertyFilter,
+  ABMetricType,
+  ABSchedulingConfig,
+  ABStoppingRulesConfig,
+  ABTestingPluginOptions,
+  ExperimentDefinition,
+  ExperimentFlagDefinition,
+  ExperimentMetricDefinition,
+  ExperimentProvider,
+  ResolveExperimentUrl,
+  ResolveGlobalExperimentUrl,
+} from './types/index.js'
+export { buildExperimentUrlFilter, defaultResolveExperimentUrl } from './utilities/experimentUrl.js'
 
 type BeforeChangeHook = (args: BeforeChangeHookArgs) => Promise<Record<string, unknown> | void>
 
+// Whether a collection or global saves drafts
+const hasDraftsEnabled = (entity?: CollectionConfig | GlobalConfig): boolean =>
+  Boolean(typeof entity?.versions === 'object' && entity.versions?.drafts)
+
+// A duplicate starts a new experiment instead of sharing the flag and lifecycle of the original
+const duplicateAs = (value: unknown): { beforeDuplicate: FieldHook[] } => ({
+  beforeDuplicate: [() => value],
+})
+
+// afterChange hooks shared by collections and globals. Globals have no operation.
+type AfterChangeHook = (
+  args: Parameters<CollectionAfterChangeHook>[0] | Parameters<GlobalAfterChangeHook>[0],
+) => ReturnType<CollectionAfterChangeHook>
+
 /**
  * Payload CMS plugin for A/B testing with PostHog
- * Adds an optional abVariant field group to specified collections
+ * Adds an optional abVariant field group to specified collections and globals
  */
 
 export const abTestingPlugin =
@@ -30,24 +130,65 @@ export const abTestingPlugin =
     if (!config.endpoints) {
       config.endpoints = []
     }
+    // Metrics editors can pick for their experiments
+    const metricCatalog = pluginOptions.metrics?.length ? pluginOptions.metrics : DEFAULT_METRICS
+
+    metricCatalog.forEach((metric) => {
+      const result = validateMetricDefinition(metric)
+      if (result !== true) {
+        throw new Error(`[A/B Plugin] Invalid metrics option: ${result}`)
+      }
+    })
+
+    // Plugin-owned, read-only log of experiment changes and PostHog requests
+    const auditLogSlug = pluginOptions.auditLog
+      ? (typeof pluginOptions.auditLog === 'object' && pluginOptions.auditLog.slug) ||
+        DEFAULT_AUDIT_LOG_SLUG
+      : undefined
+    const auditLog = auditLogSlug ? createAuditLog(auditLogSlug) : undefined
+
+    // Experimentation provider used by the hooks, PostHog unless another one is configured.
+    // Changes sent to PostHog are recorded for the document being saved.
+    const provider: ExperimentProvider =
+      pluginOptions.provider ||
+      createPostHogProvider(pluginOptions.posthog, {
+        onRequest: auditLog
+          ? async ({ body, method, path, status }) => {
+              if (method !== 'GET') {
+                await auditLog.recordInScope({
+                  action: 'posthog_request',
+                  message: `${method} ${path} responded ${status}`,
+                  request: body,
+                  requestMethod: method,
+                  requestPath: path,
+                  responseStatus: status,
+                })
+              }
+            }
+          : undefined,
+      })
+
+    // The PostHog management endpoints are only useful when PostHog is the provider
     // Pass the pluginOptions.posthog to the endpoint creation function
     // Ensure the handlers are compatible with Payload's Endpoint type
-    const posthogEndpoints = createPostHogEndpoints(pluginOptions.posthog as PostHogConfig).map(
-      (endpoint) => ({
-        ...endpoint,
-        // Ensure the 'method' property is properly typed for Payload's Endpoint type
-        handler: endpoint.handler as any, // Type assertion to bypass type incompatibility
-        method: endpoint.method.toLowerCase() as
-          | 'connect'
-          | 'delete'
-          | 'get'
-          | 'head'
-          | 'options'
-          | 'patch'
-          | 'post'
-          | 'put',
-      }),
-    )
+    const posthogEndpoints = (
+      provider.name === 'posthog'
+        ? createPostHogEndpoints(pluginOptions.posthog as PostHogConfig)
+        : []
+    ).map((endpoint) => ({
+      ...endpoint,
+      // Ensure the 'method' property is properly typed for Payload's Endpoint type
+      handler: endpoint.handler as any, // Type assertion to bypass type incompatibility
+      method: endpoint.method.toLowerCase() as
+        | 'connect'
+        | 'delete'
+        | 'get'
+        | 'head'
+        | 'options'
+        | 'patch'
+        | 'post'
+        | 'put',
+    }))
     config.endpoints.push(...posthogEndpoints)
 
     // console.log(
@@ -95,6 +236,93 @@ export const abTestingPlugin =
       return config
     }
 
+    // Plugin-owned collection and ingestion endpoint for first-party exposures and conversions
+    const eventsSlug = pluginOptions.events
+      ? (typeof pluginOptions.events === 'object' && pluginOptions.events.slug) ||
+        DEFAULT_EVENTS_SLUG
+      : undefined
+
+    if (auditLogSlug) {
+      config.collections.push(createAuditLogCollection(auditLogSlug))
+    }
+
+    if (eventsSlug) {
+      config.collections.push(createEventsCollection(eventsSlug))
+      config.endpoints.push(...createEventsEndpoints(eventsSlug))
+    }
+
+    // Payload jobs task starting and ending experiments at their scheduled dates
+    const schedulingQueue = pluginOptions.scheduling
+      ? (typeof pluginOptions.scheduling === 'object' && pluginOptions.scheduling.queue) ||
+        undefined
+      : undefined
+    const schedulingEnabled = Boolean(pluginOptions.scheduling)
+
+    if (schedulingEnabled) {
+      config.jobs = {
+        ...config.jobs,
+        tasks: [...(config.jobs?.tasks || []), createExperimentScheduleTask()],
+      }
+    }
+
+    // Periodic Payload jobs task concluding running experiments once their stopping rules are met
+    const deleteCleanup = pluginOptions.onDelete || 'deactivate'
+
+    const stoppingRulesEnabled = Boolean(pluginOptions.stoppingRules)
+    const stoppingRulesOptions =
+      typeof pluginOptions.stoppingRules === 'object' ? pluginOptions.stoppingRules : {}
+    const stoppingRulesInterval = stoppingRulesOptions.interval || 60
+
+    if (stoppingRulesEnabled) {
+      config.jobs = {
+        ...config.jobs,
+        tasks: [
+          ...(config.jobs?.tasks || []),
+          createStoppingRulesTask({
+            eventsSlug,
+            interval: stoppingRulesInterval,
+            metrics: metricCatalog,
+            provider,
+            queue: stoppingRulesOptions.queue,
+            targets: () => [
+              ...enabledCollectionSlugs.map((slug) => ({
+                collection: slug,
+                contentFields: collectionContentFields[slug] || [],
+                hasDrafts: hasDraftsEnabled(
+                  config.collections?.find((collection) => collection.slug === slug),
+                ),
+              })),
+              ...Object.keys(globalsConfig)
+                .filter((slug) => globalsConfig[slug].enabled !== false)
+                .map((slug) => ({
+                  contentFields: collectionContentFields[getGlobalMappingKey(slug)] || [],
+                  global: slug,
+                  hasDrafts: hasDraftsEnabled(
+                    config.globals?.find((global) => global.slug === slug),
+                  ),
+                })),
+            ],
+          }),
+        ],
+      }
+
+      const incomingOnInit = config.onInit
+      config.onInit = async (payload) => {
+        await incomingOnInit?.(payload)
+
+        try {
+          await ensureStoppingRulesRun(payload, {
+            interval: stoppingRulesInterval,
+            queue: stoppingRulesOptions.queue,
+          })
+        } catch (error) {
+          payload.logger.error(
+            `[A/B Plugin] Failed to queue the stopping rules evaluation: ${error instanceof Error ? error.message : String(error)}`,
+          )
+        }
+      }
+    }
+
     // Validate PostHog configuration if provided
     // This check is still useful for providing early warnings in the plugin itself
     if (pluginOptions.posthog?.apiKey) {
@@ -121,37 +349,113 @@ export const abTestingPlugin =
       })
     }
 
-    // Track collection field mappings to use in hooks
-    const collectionFieldMappings: Record<string, string[]> = {}
+    // Normalize globals config the same way
+    const globalsConfig: Record<string, ABGlobalConfig> = {}
 
-    // Map over the collections in the config
-    const modifiedCollections = config.collections.map((collection: CollectionConfig) => {
-      // Get the collection config if it exists
-      const collectionConfig = collectionsConfig[collection.slug]
+    if (Array.isArray(pluginOptions.globals)) {
+      pluginOptions.globals.forEach((slug) => {
+        globalsConfig[slug] = { enabled: true }
+      })
+    } else if (pluginOptions.globals) {
+      Object.entries(pluginOptions.globals).forEach(([slug, config]) => {
+        globalsConfig[slug] = { enabled: true, ...config }
+      })
+    }
 
-      // Only modify collections that are in our config and enabled
-      if (collectionConfig && collectionConfig.enabled !== false) {
-        // Get all content fields from the collection to duplicate them in the variant
-        let contentFields = (collection.fields || []).filter((field: Field) => {
-          // Check if the field has a name property
-          return 'name' in field
-        })
+    const enabledCollectionSlugs = Object.keys(collectionsConfig).filter(
+      (slug) => collectionsConfig[slug].enabled !== false,
+    )
+    const enabledGlobalSlugs = Object.keys(globalsConfig).filter(
+      (slug) => globalsConfig[slug].enabled !== false,
+    )
 
-        // If specific fields are provided, only include those
-        if (collectionConfig.fields && collectionConfig.fields.length > 0) {
-          contentFields = contentFields.filter((field: Field) => {
-            return 'name' in field && collectionConfig.fields?.includes(field.name)
-          })
-        } else {
-          // Otherwise, exclude system fields and any specified in excludeFields
-          const excludeFields = collectionConfig.excludeFields || ['id', 'createdAt', 'updatedAt']
-          contentFields = contentFields.filter((field: Field) => {
-            return 'name' in field && !excludeFields.includes(field.name)
-          })
-        }
+    // Feature flag keys must be unique across the A/B-enabled collections and globals, and
+    // their blocks
+    const getFeatureFlagKeyScope = (
+      slug: string,
+      isGlobal: boolean,
+      id?: number | string,
+      data?: Record<string, unknown>,
+    ): FeatureFlagKeyScope => ({
+      id,
+      blocks: Object.fromEntries(
+        enabledCollectionSlugs.map((collection) => [
+          collection,
+          collectionsConfig[collection].blocks || [],
+        ]),
+      ),
+      collection: isGlobal ? undefined : slug,
+      collections: enabledCollectionSlugs,
+      documentKeys: data
+        ? [
+            data.posthogFeatureFlagKey as string | undefined,
+            ...findBlockExperiments(data).map((block) => block.posthogFeatureFlagKey),
+          ]
+        : undefined,
+      global: isGlobal ? slug : undefined,
+      globals: enabledGlobalSlugs,
+    })
+
+    // Results of the experiments running on documents of the enabled collections
+    config.endpoints.push(
+      ...createResultsEndpoints({
+        collectionSlugs: enabledCollectionSlugs,
+        eventsSlug,
+        metrics: metricCatalog,
+        provider,
+      }),
+    )
+
+    // Track collection field mappings to use in hooks
+    const collectionFieldMappings: Record<string, string[]> = {}
+    // Variant field trees, used to copy only the selected sub-fields of groups and arrays
+    const collectionContentFields: Record<string, Field[]> = {}
+    // Names of the copied fields that are localized, filled per locale by the hooks
+    const collectionLocalizedFieldMappings: Record<string, string[]> = {}
+    // Content fields per block slug of the blocks that can run their own experiment
+    const collectionBlockFields: Record<string, Record<string, Field[]>> = {}
+
+    const getGlobalMappingKey = (slug: string) => `global:${slug}`
+
+    // Promotes the winning variant of a document into its control content
+    config.endpoints.push(
+      ...createPromoteEndpoints({
+        collectionContentFields,
+        collectionSlugs: enabledCollectionSlugs,
+        draftCollectionSlugs: config.collections
+          .filter(
+            (collection) =>
+              enabledCollectionSlugs.includes(collection.slug) && hasDraftsEnabled(collection),
+          )
+          .map((collection) => collection.slug),
+      }),
+    )
+
+    // Locales an experiment can be limited to, empty when localization is disabled
+    const localeCodes = getLocaleCodes(config.localization)
+
+    // Adds the A/B testing tabs to a collection or global
+    // mappingKey identifies it in the field mappings used by the hooks
+    const addABTestingFields = <T extends CollectionConfig | GlobalConfig>(
+      entity: T,
+      entityConfig: ABCollectionConfig | ABGlobalConfig,
+      mappingKey: string,
+      isGlobal = false,
+    ): T => {
+      // Get all content fields from the collection to duplicate them in the variant,
+      // including fields inside rows, collapsibles and unnamed tabs, keeping their layout.
+      // Fields and excludeFields accept dot paths to select sub-fields of groups and arrays
+      // If specific fields are provided, only those are included,
+      // otherwise system fields and any specified in excludeFields are left out
+      const contentFields: Field[] = selectFields(entity.fields || [], {
+        exclude: entityConfig.excludeFields || ['id', 'createdAt', 'updatedAt'],
+        include: entityConfig.fields,
+      })
 
-        // Make sure all fields in the variant are nullable in the database
-        const variantFields = contentFields.map((field: Field) => {
+      // Make sure all fields in the variant are nullable in the database
+      // Built as a function so every variant container gets its own field copies
+      const buildVariantFields = (fields: Field[] = contentFields): Field[] =>
+        mapNamedFields(fields, (field: Field) => {
           // Clone original field and remove "required" constraint for variants
           const fieldCopy = { ...field } as FieldWithRequired
           fieldCopy.required = false
@@ -164,412 +468,1179 @@ export const abTestingPlugin =
             fieldCopy.type === 'blocks' ||
             fieldCopy.type === 'richText'
           ) {
-            // Add hooks to the field if they don't exist
-            if (!fieldCopy.hooks) {
-              fieldCopy.hooks = {}
-            }
+            // Copy the hooks so the source field and other variants are not mutated,
+            // then add a beforeValidate hook to sanitize potential ID fields
+            fieldCopy.hooks = {
+              ...fieldCopy.hooks,
+              beforeValidate: [
+                ...(fieldCopy.hooks?.beforeValidate || []),
+                ({ value }) => {
+                  if (!value) {
+                    return value
+                  }
 
-            // Add beforeValidate hook to sanitize any potential ID fields
-            if (!fieldCopy.hooks.beforeValidate) {
-              fieldCopy.hooks.beforeValidate = []
+                  return sanitizeObject(value)
+                },
+              ],
             }
-
-            // Add a hook to sanitize potential ID fields
-            fieldCopy.hooks.beforeValidate.push(({ value }) => {
-              if (!value) {
-                return value
-              }
-
-              return sanitizeObject(value)
-            })
           }
 
           return fieldCopy
         })
 
-        // Store field names for this collection to use in hooks
-        if (collection.slug) {
-          collectionFieldMappings[collection.slug] = contentFields
-            .filter((field) => 'name' in field)
-            .map((field) => field.name)
-        }
-
-        // Add a toggle field to enable/disable A/B testing for this document
-        // const enableABTestingField: Field = {
-        //   name: 'enableABTesting',
-        //   type: 'checkbox',
-        //   admin: {
-        //     description: 'Check this box to create an A/B testing variant for this document',
-        //     position: 'sidebar',
-        //   },
-        //   defaultValue: false,
-        //   label: 'Enable A/B Testing',
-        // }
-
-        // Create PostHog fields for feature flag integration
-        const posthogFields: Field[] = [
-          {
-            name: 'posthogFeatureFlagKey',
-            type: 'text',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description:
-                'Feature flag key used by PostHog for this experiment. Feature flag keys must be unique. If left empty, it will be auto-generated in the format: posthog_ab_<docId>_<uniqueSuffix>. Allowed characters: letters, numbers, hyphens (-), and underscores (_).' as unknown as DescriptionFunction,
-              position: 'sidebar',
-            },
-            label: '🔑 PostHog Feature Flag Key',
-            required: false,
-          },
-          {
-            name: 'posthogFeatureFlagName',
-            type: 'text',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description:
-                'Feature flag name used by PostHog for this experiment. If left empty, it will be auto-generated in the format: A/B Test: <docId>.',
-              position: 'sidebar',
-            },
-            label: '🏷️ PostHog Feature Flag Name',
-            required: false,
-          },
-          {
-            name: 'posthogVariantName',
-            type: 'text',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description: 'Name of this variant in PostHog (defaults to "variant")',
-              hidden: true,
-              position: 'sidebar',
-            },
-            defaultValue: 'variant',
-            label: '🧪 Variant Name',
-            required: false,
-          },
-        ]
+      // Store field names for this collection or global to use in hooks
+      const namedFields = getNamedFields(contentFields)
+      collectionFieldMappings[mappingKey] = namedFields.map((field) => field.name)
+      collectionContentFields[mappingKey] = contentFields
+      collectionLocalizedFieldMappings[mappingKey] = namedFields
+        .filter((field) => field.localized)
+        .map((field) => field.name)
+
+      // Blocks of the configured blocks fields can run their own experiment, with a variant
+      // of the block's content and a flag of their own. The document-level variant keeps the
+      // original blocks, so it does not nest block experiments.
+      const blockContentFields: Record<string, Field[]> = {}
+      const fieldsWithBlockExperiments = mapBlocksFields(
+        entity.fields || [],
+        entityConfig.blocks || [],
+        (block) => {
+          blockContentFields[block.slug] = selectFields(block.fields, {
+            exclude: ['id', 'blockName'],
+          })
 
-        // --- START: MODIFIED EXPERIMENT FIELDS ---
-        const experimentFields: Field[] = [
-          {
-            name: 'experimentName',
-            type: 'text',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description:
-                'Name of the A/B testing experiment. This is used for tracking and analytics purposes.',
-              position: 'sidebar',
-            },
-            label: 'Experiment Name',
-            required: false,
-          },
-          {
-            name: 'experimentDescription',
-            type: 'textarea',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description:
-                'A description of the experiment. This helps you remember what the test is for.',
-              position: 'sidebar',
-            },
-            label: 'Experiment Description',
-            required: false,
-          },
-          {
-            name: 'experimentMetrics',
-            type: 'array',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description: 'Define the metrics to track for this experiment.',
-              position: 'sidebar',
-            },
+          return {
+            ...block,
             fields: [
+              ...block.fields,
               {
-                name: 'metric',
-                type: 'select',
-                label: 'Metric',
-                required: true,
-                options: [
+                type: 'collapsible',
+                admin: {
+                  initCollapsed: true,
+                },
+                fields: [
                   {
-                    label: 'CTA Click',
-                    value: 'cta_click',
+                    name: 'enableABTesting',
+                    type: 'checkbox',
+                    admin: {
+                      description: 'Test a variant of this block, independently of the page',
+                    },
+                    defaultValue: false,
+                    label: 'Enable A/B Testing',
                   },
                   {
-                    label: 'Form Submit',
-                    value: 'form_submit',
+                    name: 'posthogFeatureFlagKey',
+                    type: 'text',
+                    admin: {
+                      condition: (_, siblingData) => siblingData?.enableABTesting === true,
+                      description:
+                        'Feature flag key of this block experiment. If left empty, it will be auto-generated when the document is published.',
+                    },
+                    hooks: duplicateAs(null),
+                    label: '🔑 Feature Flag Key',
+                    validate: (async (value, { id, data, req }) =>
+                      validateFeatureFlagKey(
+                        value,
+                        req,
+                        getFeatureFlagKeyScope(entity.slug, isGlobal, id, data),
+                      )) as Validate,
                   },
                   {
-                    label: 'Page View',
-                    value: 'page_view',
+                    name: 'abVariant',
+                    type: 'group',
+                    admin: {
+                      condition: (_, siblingData) => siblingData?.enableABTesting === true,
+                      description: 'Filled with the block content when A/B testing is enabled',
+                    },
+                    fields: buildVariantFields(blockContentFields[block.slug]),
+                    label: '🎯 Variant Content',
                   },
                 ],
+                label: '🧪 A/B Test',
               },
-              {
-                name: 'name',
-                type: 'text',
-                label: 'Metric Name',
-                required: false,
-                hidden: true,
+            ],
+          }
+        },
+      )
+      if (Object.keys(blockContentFields).length > 0) {
+        collectionBlockFields[mappingKey] = blockContentFields
+      }
+
+      // Add a toggle field to enable/disable A/B testing for this document
+      // const enableABTestingField: Field = {
+      //   name: 'enableABTesting',
+      //   type: 'checkbox',
+      //   admin: {
+      //     description: 'Check this box to create an A/B testing variant for this document',
+      //     position: 'sidebar',
+      //   },
+      //   defaultValue: false,
+      //   label: 'Enable A/B Testing',
+      // }
+
+      // Create PostHog fields for feature flag integration
+      const posthogFields: Field[] = [
+        {
+          name: 'posthogFeatureFlagKey',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description:
+              'Feature flag key used by PostHog for this experiment. Feature flag keys must be unique. If left empty, it will be auto-generated in the format: posthog_ab_<docId>_<uniqueSuffix>. Allowed characters: letters, numbers, hyphens (-), and underscores (_).' as unknown as DescriptionFunction,
+            position: 'sidebar',
+          },
+          hooks: duplicateAs(null),
+          label: '🔑 PostHog Feature Flag Key',
+          required: false,
+          validate: (async (value, { id, data, req }) =>
+            validateFeatureFlagKey(
+              value,
+              req,
+              getFeatureFlagKeyScope(entity.slug, isGlobal, id, data),
+            )) as Validate,
+        },
+        {
+          name: 'posthogFeatureFlagName',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description:
+              'Feature flag name used by PostHog for this experiment. If left empty, it will be auto-generated in the format: A/B Test: <docId>.',
+            position: 'sidebar',
+          },
+          label: '🏷️ PostHog Feature Flag Name',
+          required: false,
+        },
+        {
+          name: 'posthogExperimentId',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.enableABTesting === true && !!data?.posthogExperimentId,
+            description:
+              'ID of the experiment synced for this document. Later saves update this experiment instead of creating a new one.',
+            position: 'sidebar',
+            readOnly: true,
+          },
+          hooks: duplicateAs(null),
+          label: '🔬 Experiment ID',
+          required: false,
+        },
+        {
+          name: 'posthogVariantName',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description: 'Name of this variant in PostHog (defaults to "variant")',
+            hidden: true,
+            position: 'sidebar',
+          },
+          defaultValue: 'variant',
+          label: '🧪 Variant Name',
+          required: false,
+        },
+      ]
+
+      // Traffic allocation, synced to the PostHog rollout percentages
+      const trafficFields: Field[] = [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'experimentRolloutPercentage',
+              type: 'number',
+              admin: {
+                description:
+                  'Share of the audience (0-100) that enters the experiment at all. Everyone else sees the original content.',
+                step: 1,
               },
-              {
-                name: 'event',
-                type: 'text',
-                label: 'Event Name',
-                required: false,
-                hidden: true,
+              defaultValue: 100,
+              label: '👥 Experiment Exposure (%)',
+              max: 100,
+              min: 0,
+              required: false,
+            },
+            {
+              name: 'controlTrafficPercentage',
+              type: 'number',
+              admin: {
+                description:
+                  'Share of the experiment traffic (0-100) that sees the original content. Leave all traffic fields empty for an even split.',
+                step: 1,
+              },
+              label: '⚖️ Control Traffic (%)',
+              max: 100,
+              min: 0,
+              required: false,
+              validate: ((_value, { data }) => validateTrafficAllocation(data)) as Validate,
+            },
+            {
+              name: 'variantTrafficPercentage',
+              type: 'number',
+              admin: {
+                description: 'Share of the experiment traffic (0-100) that sees this variant.',
+                step: 1,
               },
+              label: '⚖️ Variant Traffic (%)',
+              max: 100,
+              min: 0,
+              required: false,
+            },
+          ],
+        },
+      ]
+
+      // --- START: MODIFIED EXPERIMENT FIELDS ---
+      const experimentFields: Field[] = [
+        {
+          name: 'experimentStatus',
+          type: 'select',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description:
+              'Draft experiments serve nothing, running ones serve the variants, paused ones can be resumed. Concluded experiments get an end date and can only be archived.',
+            position: 'sidebar',
+          },
+          hooks: {
+            ...duplicateAs('draft'),
+            // Not a defaultValue, which Payload also fills in on update: documents saved before
+            // statuses existed are running, and would otherwise turn their flag off
+            beforeValidate: [
+              ({ operation, originalDoc, value }) =>
+                value ??
+                (operation === 'create' || !originalDoc?.enableABTesting
+                  ? 'draft'
+                  : getExperimentStatus(originalDoc)),
             ],
-            label: 'Experiment Metrics',
-            required: false,
           },
-
-          {
-            name: 'experimentUrlFilter',
-            type: 'text',
-            admin: {
-              condition: (data) => data?.enableABTesting === true,
-              description:
-                'Regular expression for the URL where the experiment should run. The URL must match this expression to be part of the experiment. Leave blank to run the experiment on all pages.',
-              position: 'sidebar',
-            },
-            label: 'URL Filter (Regex)',
-            required: false,
+          label: 'Experiment Status',
+          options: EXPERIMENT_STATUSES.map((status) => ({
+            label: status.charAt(0).toUpperCase() + status.slice(1),
+            value: status,
+          })),
+          validate: ((value, { previousValue }) =>
+            validateExperimentStatusTransition(value, previousValue)) as Validate,
+        },
+        {
+          type: 'row',
+          admin: {
+            condition: (data) => Boolean(data?.experimentStartedAt),
           },
-        ]
-        // --- END: MODIFIED EXPERIMENT FIELDS ---
-
-        // This is the new, single tabs field
-        const allTabs: Field = {
-          type: 'tabs',
-          tabs: [
-            // Original tab for content
+          fields: [
             {
-              fields: [
-                {
-                  name: 'enableABTesting',
-                  type: 'checkbox',
-                  admin: {
-                    description:
-                      'Check this box to create an A/B testing variant for this document',
-                    position: 'sidebar',
+              name: 'experimentStartedAt',
+              type: 'date',
+              admin: {
+                date: { pickerAppearance: 'dayAndTime' },
+                readOnly: true,
+              },
+              hooks: duplicateAs(null),
+              label: 'Started',
+            },
+            {
+              name: 'experimentEndedAt',
+              type: 'date',
+              admin: {
+                date: { pickerAppearance: 'dayAndTime' },
+                readOnly: true,
+              },
+              hooks: duplicateAs(null),
+              label: 'Ended',
+            },
+            {
+              name: 'experimentArchivedAt',
+              type: 'date',
+              admin: {
+                date: { pickerAppearance: 'dayAndTime' },
+                readOnly: true,
+              },
+              hooks: duplicateAs(null),
+              label: 'Archived',
+            },
+          ],
+        },
+        ...(schedulingEnabled
+          ? [
+              {
+                type: 'row',
+                admin: {
+                  condition: (data) => data?.enableABTesting === true,
+                },
+                fields: [
+                  {
+                    name: 'experimentStartAt',
+                    type: 'date',
+                    admin: {
+                      date: { pickerAppearance: 'dayAndTime' },
+                      description: 'Starts the experiment at this date',
+                    },
+                    hooks: duplicateAs(null),
+                    label: 'Scheduled Start',
+                  },
+                  {
+                    name: 'experimentEndAt',
+                    type: 'date',
+                    admin: {
+                      date: { pickerAppearance: 'dayAndTime' },
+                      description: 'Concludes the experiment at this date',
+                    },
+                    hooks: duplicateAs(null),
+                    label: 'Scheduled End',
+                    validate: ((value, { siblingData }) =>
+                      !value ||
+                      !(siblingData as Record<string, unknown>)?.experimentStartAt ||
+                      new Date(value as string) >
+                        new Date((siblingData as Record<string, string>).experimentStartAt) ||
+                      'The scheduled end must be after the scheduled start') as Validate,
+                  },
+                ],
+              } as Field,
+            ]
+          : []),
+        {
+          name: 'experimentWinner',
+          type: 'text',
+          admin: {
+            condition: (data) => Boolean(data?.experimentWinner),
+            description: 'Variant promoted into the control content when the experiment ended',
+            readOnly: true,
+          },
+          hooks: duplicateAs(null),
+          label: '🏆 Winner',
+        },
+        // Promoting a winner goes through the collection endpoint, which globals do not have
+        ...(isGlobal
+          ? []
+          : [
+              {
+                name: 'promoteWinner',
+                type: 'ui',
+                admin: {
+                  components: {
+                    Field: 'payload-ab/admin#PromoteWinnerButton',
                   },
-                  defaultValue: false,
-                  label: 'Enable A/B Testing',
+                  condition: (data) =>
+                    data?.enableABTesting === true &&
+                    !data?.experimentWinner &&
+                    ['concluded', 'paused', 'running', undefined].includes(data?.experimentStatus),
                 },
-                ...(collection.fields || []), // Keep original fields
+              } as Field,
+            ]),
+        {
+          name: 'experimentName',
+          type: 'text',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description:
+              'Name of the A/B testing experiment. This is used for tracking and analytics purposes.',
+            position: 'sidebar',
+          },
+          label: 'Experiment Name',
+          required: false,
+        },
+        {
+          name: 'experimentDescription',
+          type: 'textarea',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description:
+              'A description of the experiment. This helps you remember what the test is for.',
+            position: 'sidebar',
+          },
+          label: 'Experiment Description',
+          required: false,
+        },
+        {
+          name: 'experimentMetrics',
+          type: 'array',
+          admin: {
+            condition: (data) => data?.enableABTesting === true,
+            description: 'Define the metrics to track for this experiment.',
+            position: 'sidebar',
+          },
+          fields: [
+            {
+              name: 'metric',
+              type: 'select',
+              label: 'Metric',
+              options: [
+                ...metricCatalog.map((metric) => ({
+                  label: metric.label || metric.name,
+                  value: metric.name,
+                })),
+                { label: 'Custom', value: CUSTOM_METRIC },
               ],
-              label: 'Content',
+              required: true,
             },
-            // The existing tab for A/B testing variant configuration
+            // Custom metrics are defined on the document
             {
+              type: 'row',
               admin: {
-                condition: (data) => data?.enableABTesting === true,
+                condition: (_, siblingData) => siblingData?.metric === CUSTOM_METRIC,
               },
-              description: 'Configure A/B testing variants for this content',
               fields: [
-                ...posthogFields,
-
                 {
-                  name: 'abVariant',
-                  type: 'group',
-                  admin: {
-                    className: 'ab-variant-group',
-                    description:
-                      'Configure your A/B testing variant content here' as unknown as DescriptionFunction,
-                  },
-                  fields: variantFields,
-                  hooks: {
-                    beforeValidate: [
-                      ({ value }) => {
-                        if (value && typeof value === 'object') {
-                          return sanitizeObject(value)
-                        }
-                        return value
-                      },
-                    ],
-                  },
-                  label: '🎯 Variant Content',
-                  localized: false,
-                  nullable: true,
-                  required: false,
-                  unique: false,
-                } as GroupField,
+                  name: 'name',
+                  type: 'text',
+                  label: 'Metric Name',
+                },
+                {
+                  name: 'type',
+                  type: 'select',
+                  defaultValue: 'funnel',
+                  label: 'Type',
+                  options: [
+                    { label: 'Funnel (conversion rate)', value: 'funnel' },
+                    { label: 'Trend (event count)', value: 'trend' },
+                    { label: 'Mean (numeric property)', value: 'mean' },
+                  ],
+                },
               ],
-              label: '📊 A/B Testing',
             },
             {
+              name: 'event',
+              type: 'text',
+              admin: {
+                condition: (_, siblingData) => siblingData?.metric === CUSTOM_METRIC,
+                description: 'Event the metric is computed from, the first step of a funnel',
+              },
+              label: 'Event Name',
+            },
+            {
+              name: 'property',
+              type: 'text',
+              admin: {
+                condition: (_, siblingData) =>
+                  siblingData?.metric === CUSTOM_METRIC && siblingData?.type === 'mean',
+                description: 'Numeric event property to average, e.g. revenue',
+              },
+              label: 'Numeric Property',
+            },
+            {
+              name: 'steps',
+              type: 'array',
               admin: {
-                condition: (data) => data?.enableABTesting === true,
+                condition: (_, siblingData) =>
+                  siblingData?.metric === CUSTOM_METRIC &&
+                  (siblingData?.type || 'funnel') === 'funnel',
+                description: 'Further events of the funnel, in order',
               },
-              description: 'Configure experiment-specific settings',
-              fields: [...experimentFields],
-              label: '🧪 Experiments',
+              fields: [
+                {
+                  name: 'event',
+                  type: 'text',
+                  label: 'Event Name',
+                },
+              ],
+              label: 'Funnel Steps',
             },
           ],
-        }
-        // const allTabs: Field = {
-        //   type: 'tabs',
-        //   tabs: [
-        //     // Original tab for content
-        //     {
-        //       fields: collection.fields || [],
-        //       label: 'Content',
-        //     },
-        //     // The existing tab for A/B testing variant configuration
-        //     {
-        //       admin: {
-        //         condition: (data) => data?.enableABTesting === true,
-        //       },
-        //       description:
-        //         'Configure A/B testing variants for this content. Enable A/B testing to start the experiment.',
-        //       fields: [
-        //         enableABTestingField,
-        //         ...posthogFields,
-        //         {
-        //           name: 'abVariant',
-        //           type: 'group',
-        //           admin: {
-        //             className: 'ab-variant-group',
-        //             condition: (data) => data?.enableABTesting === true,
-        //             description:
-        //               'Configure your A/B testing variant content here' as unknown as DescriptionFunction,
-        //           },
-        //           fields: variantFields,
-        //           hooks: {
-        //             // Add a hook to sanitize the variant data before it's saved
-        //             beforeValidate: [
-        //               ({ value }) => {
-        //                 // If the value is an object, ensure it doesn't have any system fields
-        //                 if (value && typeof value === 'object') {
-        //                   const sanitizedValue = sanitizeObject(value)
-        //                   return sanitizedValue
-        //                 }
-        //                 return value
-        //               },
-        //             ],
-        //           },
-        //           label: '🎯 Variant Content',
-        //           localized: false,
-        //           nullable: true,
-        //           required: false,
-        //           unique: false,
-        //         } as GroupField,
-        //       ],
-        //       label: '📊 A/B Testing',
-        //     },
-        //     {
-        //       admin: {
-        //         condition: (data) => data?.enableABTesting === true,
-        //       },
-        //       description:
-        //         'Configure experiment-specific settings. This data is used for tracking and analytics purposes.',
-        //       fields: [...experimentFields],
-        //       label: '📊 Experiments',
-        //     },
-        //   ],
-        // }
-        // Create a tabs field with an A/B Testing tab
-        // const abTestingTab: Field = {
-        //   type: 'tabs',
-        //   tabs: [
-        //     // Keep the original tabs/fields as they are
-        //     {
-        //       fields: collection.fields || [],
-        //       label: 'Content',
-        //     },
-        //     // Add a new tab for A/B Testing
-        //     {
-        //       description:
-        //         'Configure A/B testing variants for this content. Enable A/B testing to start the experiment.',
-        //       fields: [
-        //         enableABTestingField,
-        //         ...posthogFields,
-        //         {
-        //           name: 'abVariant',
-        //           type: 'group',
-        //           admin: {
-        //             className: 'ab-variant-group',
-        //             condition: (data) => data?.enableABTesting === true,
-        //             description:
-        //               'Configure your A/B testing variant content here' as unknown as DescriptionFunction,
-        //           },
-        //           fields: variantFields,
-        //           hooks: {
-        //             // Add a hook to sanitize the variant data before it's saved
-        //             beforeValidate: [
-        //               ({ value }) => {
-        //                 // If the value is an object, ensure it doesn't have any system fields
-        //                 if (value && typeof value === 'object') {
-        //                   const sanitizedValue = sanitizeObject(value)
-        //                   return sanitizedValue
-        //                 }
-        //                 return value
-        //               },
-        //             ],
-        //           },
-        //           label: '🎯 Variant Content',
-        //           localized: false,
-        //           nullable: true,
-        //           required: false,
-        //           unique: false,
-        //         } as GroupField,
-        //       ],
-        //       label: ' A/B Testing',
-        //     },
-        //   ],
-        // }
-
-        // Return the modified collection with tabs
-        return {
-          ...collection,
+          label: 'Experiment Metrics',
+          required: false,
+          validate: ((value) => validateExperimentMetrics(value)) as Validate,
+        },
+
+        {
+          name: 'experimentUrlFilter',
+          type: 'text',
           admin: {
-            ...collection.admin,
-            // Ensure we preserve any existing useAsTitle setting
-            useAsTitle: collection.admin?.useAsTitle || 'title',
+            condition: (data) => data?.enableABTesting === true,
+            description:
+              'Regular expression for the URL where the experiment should run. The URL must match this expression to be part of the experiment. Leave blank to run the experiment on all pages.',
+            position: 'sidebar',
           },
-          fields: [allTabs],
-        }
-      }
-      return collection
-    })
-
-    // Update the config with the modified collections
-    config.collections = modifiedCollections
-
-    // Add hooks to copy content to variant when A/B testing is enabled
-    if (!config.hooks) {
-      config.hooks = {}
-    }
+          label: 'URL Filter (Regex)',
+          required: false,
+        },
+        // Only offered when Payload localization is enabled
+        ...(localeCodes.length > 0
+          ? [
+              {
+                name: 'experimentLocales',
+                type: 'select',
+                admin: {
+                  condition: (data) => data?.enableABTesting === true,
+                  description:
+                    'Run the experiment only for these locales. Leave empty to run it in every locale.',
+                  position: 'sidebar',
+                },
+                hasMany: true,
+                label: 'Experiment Locales',
+                options: localeCodes,
+                required: false,
+              } as Field,
+            ]
+          : []),
+        ...(stoppingRulesEnabled
+          ? [
+              {
+                name: 'experimentStoppingRules',
+                type: 'group',
+                admin: {
+                  condition: (data) => data?.enableABTesting === true,
+                  description:
+                    'Concludes the running experiment automatically once a rule is met. The probability is read from the first metric.',
+                },
+                fields: [
+                  {
+                    type: 'row',
+                    fields: [
+                      {
+                        name: 'minSamplePerVariant',
+                        type: 'number',
+                        admin: {
+                          description:
+                            'Exposures every variant needs before the probability rule applies',
+                        },
+                        label: 'Minimum Sample per Variant',
+                        min: 1,
+                      },
+                      {
+                        name: 'probabilityToBeBest',
+                        type: 'number',
+                        admin: {
+                          description: 'Concludes once a variant reaches this probability, e.g. 95',
+                        },
+                        label: 'Probability to Be Best (%)',
+                        max: 100,
+                        min: 50,
+                      },
+                      {
+                        name: 'maxDurationDays',
+                        type: 'number',
+                        admin: {
+                          description: 'Concludes without a winner after this many days running',
+                        },
+                        label: 'Maximum Duration (days)',
+                        min: 1,
+                      },
+                    ],
+                  },
+                  {
+                    name: 'promoteWinner',
+                    type: 'checkbox',
+                    admin: {
+                      description:
+                        'Promotes the winning variant into the control content when the probability rule concludes the experiment',
+                    },
+                    defaultValue: false,
+                    label: 'Promote the Winner',
+                  },
+                ],
+                label: 'Stopping Rules',
+              } as Field,
+              {
+                name: 'experimentDecisions',
+                type: 'array',
+                admin: {
+                  condition: (data) =>
+                    Array.isArray(data?.experimentDecisions) && data.experimentDecisions.length > 0,
+                  description: 'Automated decisions taken by the stopping rules',
+                  readOnly: true,
+                },
+                fields: [
+                  {
+                    type: 'row',
+                    fields: [
+                      {
+                        name: 'decidedAt',
+                        type: 'date',
+                        admin: { date: { pickerAppearance: 'dayAndTime' } },
+                        label: 'Date',
+                      },
+                      {
+                        name: 'action',
+                        type: 'select',
+                        options: [
+                          { label: 'Concluded', value: 'concluded' },
+                          { label: 'Concluded and promoted', value: 'promoted' },
+                        ],
+                      },
+                      {
+                        name: 'winner',
+                        type: 'text',
+                      },
+                    ],
+                  },
+                  {
+                    name: 'reason',
+                    type: 'textarea',
+                  },
+                ],
+                hooks: duplicateAs([]),
+                label: 'Experiment Decisions',
+              } as Field,
+            ]
+          : []),
+      ]
+      // --- END: MODIFIED EXPERIMENT FIELDS ---
+
+      // This is the new, single tabs field
+      const enableABTestingFields: Field[] = [
+        {
+          name: 'enableABTesting',
+          type: 'checkbox',
+          admin: {
+            description: 'Check this box to create an A/B testing variant for this document',
+            position: 'sidebar',
+          },
+          defaultValue: false,
+          label: 'Enable A/B Testing',
+        },
+        // Disabling A/B testing keeps the variants, discarding them is an explicit choice
+        {
+          name: 'discardABVariants',
+          type: 'checkbox',
+          admin: {
+            condition: (data) =>
+              data?.enableABTesting !== true &&
+              (hasVariantContent(data?.abVariant) ||
+                (Array.isArray(data?.abVariants) && data.abVariants.length > 0)),
+            description: 'Check this box and save to delete the variant content of this document',
+            position: 'sidebar',
+          },
+          defaultValue: false,
+          label: 'Discard Variant Content',
+        },
+      ]
+
+      // The A/B testing variant configuration
+      const abTestingTab: Tab = {
+        admin: {
+          condition: (data) => data?.enableABTesting === true,
+        },
+        description: 'Configure A/B testing variants for this content',
+        fields: [
+          ...posthogFields,
+          ...trafficFields,
 
-    // Add collection-specific hooks instead of a global one
-    Object.keys(collectionsConfig).forEach((collectionSlug) => {
-      // Skip if collection is not enabled
-      const collectionConfig = collectionsConfig[collectionSlug]
-      if (collectionConfig?.enabled === false) {
-        return
+          {
+            name: 'abVariant',
+            type: 'group',
+            admin: {
+              className: 'ab-variant-group',
+              description:
+                'Configure your A/B testing variant content here' as unknown as DescriptionFunction,
+            },
+            fields: buildVariantFields(),
+            hooks: {
+              beforeValidate: [
+                ({ value }) => {
+                  if (value && typeof value === 'object') {
+                    return sanitizeObject(value)
+                  }
+                  return value
+                },
+              ],
+            },
+            label: '🎯 Variant Content',
+            // The group itself is not localized: every variant field keeps the `localized`
+            // setting of its source field, so localized content is stored per locale
+            localized: false,
+            nullable: true,
+            required: false,
+            unique: false,
+          } as GroupField,
+          // Additional variants for A/B/n tests, each one becomes its own PostHog multivariate key
+          {
+            name: 'abVariants',
+            type: 'array',
+            admin: {
+              description:
+                'Add more variants to run an A/B/n test. Each variant gets its own PostHog variant key. New variants are pre-filled with the original content.',
+              initCollapsed: true,
+            },
+            fields: [
+              {
+                name: 'key',
+                type: 'text',
+                admin: {
+                  description:
+                    'PostHog variant key, e.g. "variant_b". Allowed characters: letters, numbers, hyphens (-), and underscores (_).',
+                },
+                label: 'Variant Key',
+                required: true,
+              },
+              {
+                name: 'name',
+                type: 'text',
+                label: 'Variant Name',
+                required: false,
+              },
+              {
+                name: 'trafficPercentage',
+                type: 'number',
+                admin: {
+                  description: 'Share of the experiment traffic (0-100) for this variant.',
+                  step: 1,
+                },
+                label: 'Traffic (%)',
+                max: 100,
+                min: 0,
+                required: false,
+              },
+              {
+                name: 'content',
+                type: 'group',
+                fields: buildVariantFields(),
+                label: 'Variant Content',
+              },
+            ],
+            label: '🧪 Additional Variants',
+            labels: {
+              plural: 'Additional Variants',
+              singular: 'Additional Variant',
+            },
+            required: false,
+            validate: (value, { data }) => validateVariantKeys(value, data),
+          },
+        ],
+        label: '📊 A/B Testing',
       }
 
-      // Find the collection to add the hook to
-      const collection = config.collections?.find((c) => c.slug === collectionSlug)
-      if (!collection) {
-        return
+      const experimentsTab: Tab = {
+        admin: {
+          condition: (data) => data?.enableABTesting === true,
+        },
+        description: 'Configure experiment-specific settings',
+        fields: [...experimentFields],
+        label: '🧪 Experiments',
       }
 
-      // Initialize hooks for this collection if needed
-      if (!collection.hooks) {
-        collection.hooks = {}
+      // Presents the same tabs as collapsibles, for placements that keep the original layout
+      const toCollapsible = (tab: Tab, position?: 'sidebar'): Field => ({
+        type: 'collapsible',
+        admin: {
+          condition: (data) => data?.enableABTesting === true,
+          description: tab.description,
+          initCollapsed: true,
+          position,
+        },
+        fields: tab.fields,
+        label: tab.label,
+      })
+
+      const placement = entityConfig.placement || 'tabs'
+      let placedFields: Field[]
+
+      if (placement === 'append-tabs') {
+        // Add the tabs to the first top-level tabs field, or after the fields when there is none
+        const tabsIndex = fieldsWithBlockExperiments.findIndex((field) => field.type === 'tabs')
+        placedFields =
+          tabsIndex === -1
+            ? [
+                ...enableABTestingFields,
+                ...fieldsWithBlockExperiments,
+                { type: 'tabs', tabs: [abTestingTab, experimentsTab] },
+              ]
+            : [
+                ...enableABTestingFields,
+                ...fieldsWithBlockExperiments.map((field, index) =>
+                  index === tabsIndex && field.type === 'tabs'
+                    ? { ...field, tabs: [...field.tabs, abTestingTab, experimentsTab] }
+                    : field,
+                ),
+              ]
+      } else if (placement === 'sidebar') {
+        placedFields = [
+          ...enableABTestingFields,
+          ...fieldsWithBlockExperiments,
+          toCollapsible(abTestingTab, 'sidebar'),
+          toCollapsible(experimentsTab, 'sidebar'),
+        ]
+      } else if (placement === 'collapsible') {
+        placedFields = [
+          ...enableABTestingFields,
+          ...fieldsWithBlockExperiments,
+          toCollapsible(abTestingTab),
+          toCollapsible(experimentsTab),
+        ]
+      } else {
+        // Wrap the original fields in a Content tab, followed by the A/B testing tabs
+        placedFields = [
+          {
+            type: 'tabs',
+            tabs: [
+              {
+                fields: [...enableABTestingFields, ...fieldsWithBlockExperiments],
+                label: 'Content',
+              },
+              abTestingTab,
+              experimentsTab,
+            ],
+          },
+        ]
       }
+      // const allTabs: Field = {
+      //   type: 'tabs',
+      //   tabs: [
+      //     // Original tab for content
+      //     {
+      //       fields: entity.fields || [],
+      //       label: 'Content',
+      //     },
+      //     // The existing tab for A/B testing variant configuration
+      //     {
+      //       admin: {
+      //         condition: (data) => data?.enableABTesting === true,
+      //       },
+      //       description:
+      //         'Configure A/B testing variants for this content. Enable A/B testing to start the experiment.',
+      //       fields: [
+      //         enableABTestingField,
+      //         ...posthogFields,
+      //         {
+      //           name: 'abVariant',
+      //           type: 'group',
+      //           admin: {
+      //             className: 'ab-variant-group',
+      //             condition: (data) => data?.enableABTesting === true,
+      //             description:
+      //               'Configure your A/B testing variant content here' as unknown as DescriptionFunction,
+      //           },
+      //           fields: variantFields,
+      //           hooks: {
+      //             // Add a hook to sanitize the variant data before it's saved
+      //             beforeValidate: [
+      //               ({ value }) => {
+      //                 // If the value is an object, ensure it doesn't have any system fields
+      //                 if (value && typeof value === 'object') {
+      //                   const sanitizedValue = sanitizeObject(value)
+      //                   return sanitizedValue
+      //                 }
+      //                 return value
+      //               },
+      //             ],
+      //           },
+      //           label: '🎯 Variant Content',
+      //           localized: false,
+      //           nullable: true,
+      //           required: false,
+      //           unique: false,
+      //         } as GroupField,
+      //       ],
+      //       label: '📊 A/B Testing',
+      //     },
+      //     {
+      //       admin: {
+      //         condition: (data) => data?.enableABTesting === true,
+      //       },
+      //       description:
+      //         'Configure experiment-specific settings. This data is used for tracking and analytics purposes.',
+      //       fields: [...experimentFields],
+      //       label: '📊 Experiments',
+      //     },
+      //   ],
+      // }
+      // Create a tabs field with an A/B Testing tab
+      // const abTestingTab: Field = {
+      //   type: 'tabs',
+      //   tabs: [
+      //     // Keep the original tabs/fields as they are
+      //     {
+      //       fields: entity.fields || [],
+      //       label: 'Content',
+      //     },
+      //     // Add a new tab for A/B Testing
+      //     {
+      //       description:
+      //         'Configure A/B testing variants for this content. Enable A/B testing to start the experiment.',
+      //       fields: [
+      //         enableABTestingField,
+      //         ...posthogFields,
+      //         {
+      //           name: 'abVariant',
+      //           type: 'group',
+      //           admin: {
+      //             className: 'ab-variant-group',
+      //             condition: (data) => data?.enableABTesting === true,
+      //             description:
+      //               'Configure your A/B testing variant content here' as unknown as DescriptionFunction,
+      //           },
+      //           fields: variantFields,
+      //           hooks: {
+      //             // Add a hook to sanitize the variant data before it's saved
+      //             beforeValidate: [
+      //               ({ value }) => {
+      //                 // If the value is an object, ensure it doesn't have any system fields
+      //                 if (value && typeof value === 'object') {
+      //                   const sanitizedValue = sanitizeObject(value)
+      //                   return sanitizedValue
+      //                 }
+      //                 return value
+      //               },
+      //             ],
+      //           },
+      //           label: '🎯 Variant Content',
+      //           localized: false,
+      //           nullable: true,
+      //           required: false,
+      //           unique: false,
+      //         } as GroupField,
+      //       ],
+      //       label: ' A/B Testing',
+      //     },
+      //   ],
+      // }
+
+      // Return the modified collection or global with the A/B testing fields in place
+      return {
+        ...entity,
+        fields: placedFields,
+      }
+    }
 
-      if (!collection.hooks.beforeChange) {
-        collection.hooks.beforeChange = []
+    // Map over the collections in the config
+    const modifiedCollections = config.collections.map((collection: CollectionConfig) => {
+      // Get the collection config if it exists
+      const collectionConfig = collectionsConfig[collection.slug]
+
+      // Only modify collections that are in our config and enabled
+      // The collection's admin options, such as useAsTitle, are kept as they are
+      if (collectionConfig && collectionConfig.enabled !== false) {
+        return addABTestingFields(collection, collectionConfig, collection.slug)
+      }
+      return collection
+    })
+
+    // Update the config with the modified collections
+    config.collections = modifiedCollections
+
+    // Globals get the same tabs, their mappings are keyed apart from collections with the same slug
+    config.globals = (config.globals || []).map((global: GlobalConfig) => {
+      const globalConfig = globalsConfig[global.slug]
+
+      if (globalConfig && globalConfig.enabled !== false) {
+        return addABTestingFields(global, globalConfig, getGlobalMappingKey(global.slug), true)
+      }
+      return global
+    })
+
+    // Add hooks to copy content to variant when A/B testing is enabled
+    if (!config.hooks) {
+      config.hooks = {}
+    }
+
+    // Adds the hooks copying content to the variants and syncing experiments to a collection or global
+    const addABTestingHooks = (
+      entity: CollectionConfig | GlobalConfig,
+      {
+        isGlobal,
+        mappingKey,
+        resolveUrlFilter,
+      }: {
+        isGlobal: boolean
+        mappingKey: string
+        resolveUrlFilter: (
+          doc: Record<string, unknown>,
+          req: PayloadRequest,
+        ) => Promise<string | undefined>
+      },
+    ): void => {
+      const entitySlug = entity.slug
+
+      // Initialize hooks for this collection or global if needed
+      const hooks = (entity.hooks ||= {}) as {
+        afterChange?: AfterChangeHook[]
+        afterDelete?: CollectionAfterDeleteHook[]
+        beforeChange?: BeforeChangeHook[]
       }
 
-      // Add the hook for this specific collection
+      // With drafts enabled, experiments only sync with the provider on publish
+      const hasDrafts = hasDraftsEnabled(entity)
+
+      // Copies the configured control fields into a fresh, sanitized variant object
+      const copyContentToVariant = (
+        currentData: Record<string, unknown>,
+        originalDoc: Record<string, unknown> | undefined,
+      ): Record<string, unknown> => {
+        const fieldsToCopy = collectionFieldMappings[mappingKey] || []
+        console.log(`[A/B Plugin] fieldsToCopy for ${entitySlug}:`, fieldsToCopy)
+
+        // Create a new object for the variant instead of modifying the existing one
+        const newVariant: Record<string, unknown> = {}
+
+        // Only copy the fields that are explicitly defined in the configuration
+        fieldsToCopy.forEach((fieldName) => {
+          // Determine source value: new data overrides originalDoc
+          const rawValue =
+            currentData[fieldName] !== undefined ? currentData[fieldName] : originalDoc?.[fieldName]
+
+          // Only keep the sub-fields selected with dot paths
+          const sourceValue =
+            rawValue === undefined
+              ? undefined
+              : pickFieldData({ [fieldName]: rawValue }, collectionContentFields[mappingKey] || [])[
+                  fieldName
+                ]
+
+          if (sourceValue !== undefined) {
+            console.log(
+              `[A/B Plugin] Copying field ${fieldName} to variant:`,
+              typeof sourceValue === 'object' ? 'Complex object' : sourceValue,
+            )
+
+            // Special handling for blocks and complex fields
+            if (
+              fieldName === 'content' ||
+              fieldName === 'callOut' ||
+              fieldName === 'callToAction' ||
+              fieldName === 'subTitle' ||
+              typeof sourceValue === 'object'
+            ) {
+              console.log(`[A/B Plugin] Special handling for complex field: ${fieldName}`)
+
+              try {
+                // For blocks and complex objects, use a more careful approach
+                // First stringify to break references
+                const jsonString = JSON.stringify(sourceValue)
+                let parsed
+
+                try {
+                  parsed = JSON.parse(jsonString)
+                } catch (err) {
+                  console.log(`[A/B Plugin] Error parsing JSON for ${fieldName}:`, err)
+                  parsed = sourceValue // Fallback to original
+                }
+
+                // If we have blocks, ensure we handle them properly
+                if (
+                  Array.isArray(parsed) &&
+                  parsed.length > 0 &&
+                  parsed[0] &&
+                  (parsed[0].blockType || parsed[0].type || parsed[0].blockName)
+                ) {
+                  console.log(`[A/B Plugin] Detected blocks in ${fieldName}, sanitizing...`)
+
+                  // Process each block to remove problematic fields
+                  const sanitizedBlocks = parsed.map((block: any) => {
+                    // 1. Get the original block type.
+                    const type = block.blockType || block.type || block.blockName
+
+                    // 2. Create a copy of the block's content to modify.
+                    //    We will pass this to sanitizeObject.
+                    const blockDataToSanitize = { ...block }
+
+                    // 3. Remove original top-level id, _id from this copy before full sanitization.
+                    //    Also remove the various type designators because we'll add the canonical `blockType` back.
+                    //    sanitizeObject (defined in the outer scope) will handle nested ids.
+                    delete blockDataToSanitize.id
+                    delete blockDataToSanitize._id
+                    delete blockDataToSanitize.blockType // remove if it exists from the data payload
+                    delete blockDataToSanitize.type // remove if it exists from the data payload
+                    delete blockDataToSanitize.blockName // remove if it exists from the data payload
+
+                    // 4. Recursively sanitize all remaining fields in the block data.
+                    const sanitizedInternalFields = sanitizeObject(blockDataToSanitize)
+
+                    // 5. Construct the new block with the correct blockType and sanitized fields.
+                    return {
+                      blockType: type,
+                      ...sanitizedInternalFields,
+                    }
+                  })
+
+                  newVariant[fieldName] = sanitizedBlocks
+                } else {
+                  // For other complex objects, use the recursive sanitizer
+                  newVariant[fieldName] = sanitizeObject(parsed)
+                }
+              } catch (err) {
+                console.log(`[A/B Plugin] Error processing ${fieldName}:`, err)
+                // Last resort: try a shallow copy
+                const shallowCopy = Array.isArray(sourceValue)
+                  ? [...sourceValue]
+                  : { ...sourceValue }
+                newVariant[fieldName] = sanitizeObject(shallowCopy)
+              }
+            } else {
+              // For primitive values, assign directly
+              newVariant[fieldName] = sourceValue
+            }
+          }
+        })
+
+        return newVariant
+      }
+
+      // Identifies a save in req.context, the same way in the before and after change hooks.
+      // Globals have no ID, their mapping key is unique.
+      const getChangeKey = (id: unknown) => (isGlobal ? mappingKey : `${mappingKey}:${String(id)}`)
+
+      // Add the hook for this specific collection or global
       const copyToVariantHook: BeforeChangeHook = async (
         args: BeforeChangeHookArgs,
       ): Promise<Record<string, unknown>> => {
         const { data: currentData, originalDoc, req } = args
 
+        // Mark the document as changed through this hook, see restoreExperimentHook
+        if (isGlobal || originalDoc?.id !== undefined) {
+          req.context = {
+            ...req.context,
+            abTestingBeforeChange: [
+              ...((req.context?.abTestingBeforeChange as string[] | undefined) || []),
+              getChangeKey(originalDoc?.id),
+            ],
+          }
+        }
+
+        // Saves made by the locale sync below only fill variant content, skip the provider sync
+        if (req.context?.abTestingLocaleSync) {
+          return currentData
+        }
+
+        // Field validation runs after this hook, so changes are checked before they reach the
+        // provider. Errors are reported on their fields, outside the try below.
+        const errors: ValidationFieldError[] = []
+
+        // An illegal transition, e.g. concluded to running, would turn the flag back on
+        const transition = validateExperimentStatusTransition(
+          currentData.experimentStatus,
+          originalDoc?.experimentStatus,
+        )
+        if (transition !== true) {
+          errors.push({ message: transition, path: 'experimentStatus' })
+        }
+
+        // An invalid split, e.g. 60/60, would be sent to the provider as is
+        if (currentData.enableABTesting) {
+          const allocation = validateTrafficAllocation(currentData)
+          if (allocation !== true) {
+            errors.push({ message: allocation, path: 'controlTrafficPercentage' })
+          }
+        }
+
+        if (
+          currentData.enableABTesting &&
+          currentData.posthogFeatureFlagKey &&
+          currentData.posthogFeatureFlagKey !== originalDoc?.posthogFeatureFlagKey
+        ) {
+          const validation = await validateFeatureFlagKey(
+            currentData.posthogFeatureFlagKey,
+            req,
+            getFeatureFlagKeyScope(
+              entitySlug,
+              isGlobal,
+              originalDoc?.id as number | string | undefined,
+              currentData,
+            ),
+          )
+          if (validation !== true) {
+            errors.push({ message: validation, path: 'posthogFeatureFlagKey' })
+          }
+        }
+
+        if (errors.length > 0) {
+          throw new ValidationError(
+            {
+              collection: isGlobal ? undefined : entitySlug,
+              errors,
+              global: isGlobal ? entitySlug : undefined,
+            },
+            req.t,
+          )
+        }
+
         try {
-          req.payload.logger.info(`[A/B Plugin] copyToVariantHook fired for ${collectionSlug}`, {
+          req.payload.logger.info(`[A/B Plugin] copyToVariantHook fired for ${entitySlug}`, {
             enableABTesting: currentData.enableABTesting,
             hasOriginalDoc: !!originalDoc,
           })
@@ -579,122 +1650,44 @@ export const abTestingPlugin =
             currentData.abVariant = {}
           }
 
-          // If A/B testing is disabled, clear the variant data and exit early
+          // If A/B testing is disabled, stop serving the variants and exit early.
+          // The variant data is kept, unless the editor explicitly discards it
           if (!currentData.enableABTesting) {
-            currentData.abVariant = {}
+            if (currentData.discardABVariants) {
+              req.payload.logger.info(`[A/B Plugin] Discarding the variant data of ${entitySlug}`)
+              currentData.abVariant = {}
+              currentData.abVariants = []
+            }
+            currentData.discardABVariants = false
+
+            const featureFlagKey = currentData.posthogFeatureFlagKey as string | undefined
+            if (
+              originalDoc?.enableABTesting &&
+              featureFlagKey &&
+              (!hasDrafts || currentData._status === 'published')
+            ) {
+              req.payload.logger.info(
+                `[A/B Plugin] A/B testing disabled for ${entitySlug}, deactivating flag ${featureFlagKey}`,
+              )
+              await provider.deactivateFlag(featureFlagKey)
+            }
             return currentData
           }
 
           const wasABTestingEnabled = originalDoc?.enableABTesting === true
           const isABTestingEnabled = currentData.enableABTesting === true
-          const isFirstTimeEnabling = isABTestingEnabled && !wasABTestingEnabled
+          // Variant content kept from an earlier experiment is not overwritten
+          const isFirstTimeEnabling =
+            isABTestingEnabled && !wasABTestingEnabled && !hasVariantContent(currentData.abVariant)
 
           // Logic for enabling A/B testing
           if (isABTestingEnabled) {
             if (isFirstTimeEnabling) {
               req.payload.logger.info(
-                `[A/B Plugin] First time enabling A/B testing for ${collectionSlug}, copying content to variant`,
+                `[A/B Plugin] First time enabling A/B testing for ${entitySlug}, copying content to variant`,
               )
 
-              const fieldsToCopy = collectionFieldMappings[collectionSlug] || []
-              console.log(`[A/B Plugin] fieldsToCopy for ${collectionSlug}:`, fieldsToCopy)
-
-              // Create a new object for the variant instead of modifying the existing one
-              const newVariant: Record<string, unknown> = {}
-
-              // Only copy the fields that are explicitly defined in the configuration
-              fieldsToCopy.forEach((fieldName) => {
-                // Determine source value: new data overrides originalDoc
-                const sourceValue =
-                  currentData[fieldName] !== undefined
-                    ? currentData[fieldName]
-                    : originalDoc?.[fieldName]
-
-                if (sourceValue !== undefined) {
-                  console.log(
-                    `[A/B Plugin] Copying field ${fieldName} to variant:`,
-                    typeof sourceValue === 'object' ? 'Complex object' : sourceValue,
-                  )
-
-                  // Special handling for blocks and complex fields
-                  if (
-                    fieldName === 'content' ||
-                    fieldName === 'callOut' ||
-                    fieldName === 'callToAction' ||
-                    fieldName === 'subTitle' ||
-                    typeof sourceValue === 'object'
-                  ) {
-                    console.log(`[A/B Plugin] Special handling for complex field: ${fieldName}`)
-
-                    try {
-                      // For blocks and complex objects, use a more careful approach
-                      // First stringify to break references
-                      const jsonString = JSON.stringify(sourceValue)
-                      let parsed
-
-                      try {
-                        parsed = JSON.parse(jsonString)
-                      } catch (err) {
-                        console.log(`[A/B Plugin] Error parsing JSON for ${fieldName}:`, err)
-                        parsed = sourceValue // Fallback to original
-                      }
-
-                      // If we have blocks, ensure we handle them properly
-                      if (
-                        Array.isArray(parsed) &&
-                        parsed.length > 0 &&
-                        parsed[0] &&
-                        (parsed[0].blockType || parsed[0].type || parsed[0].blockName)
-                      ) {
-                        console.log(`[A/B Plugin] Detected blocks in ${fieldName}, sanitizing...`)
-
-                        // Process each block to remove problematic fields
-                        const sanitizedBlocks = parsed.map((block: any) => {
-                          // 1. Get the original block type.
-                          const type = block.blockType || block.type || block.blockName
-
-                          // 2. Create a copy of the block's content to modify.
-                          //    We will pass this to sanitizeObject.
-                          const blockDataToSanitize = { ...block }
-
-                          // 3. Remove original top-level id, _id from this copy before full sanitization.
-                          //    Also remove the various type designators because we'll add the canonical `blockType` back.
-                          //    sanitizeObject (defined in the outer scope) will handle nested ids.
-                          delete blockDataToSanitize.id
-                          delete blockDataToSanitize._id
-                          delete blockDataToSanitize.blockType // remove if it exists from the data payload
-                          delete blockDataToSanitize.type // remove if it exists from the data payload
-                          delete blockDataToSanitize.blockName // remove if it exists from the data payload
-
-                          // 4. Recursively sanitize all remaining fields in the block data.
-                          const sanitizedInternalFields = sanitizeObject(blockDataToSanitize)
-
-                          // 5. Construct the new block with the correct blockType and sanitized fields.
-                          return {
-                            blockType: type,
-                            ...sanitizedInternalFields,
-                          }
-                        })
-
-                        newVariant[fieldName] = sanitizedBlocks
-                      } else {
-                        // For other complex objects, use the recursive sanitizer
-                        newVariant[fieldName] = sanitizeObject(parsed)
-                      }
-                    } catch (err) {
-                      console.log(`[A/B Plugin] Error processing ${fieldName}:`, err)
-                      // Last resort: try a shallow copy
-                      const shallowCopy = Array.isArray(sourceValue)
-                        ? [...sourceValue]
-                        : { ...sourceValue }
-                      newVariant[fieldName] = sanitizeObject(shallowCopy)
-                    }
-                  } else {
-                    // For primitive values, assign directly
-                    newVariant[fieldName] = sourceValue
-                  }
-                }
-              })
+              const newVariant = copyContentToVariant(currentData, originalDoc)
 
               // Preserve any PostHog-related fields
               if (currentData.abVariant?.posthogVariantName) {
@@ -711,197 +1704,295 @@ export const abTestingPlugin =
               console.log(`[A/B Plugin] Final variant fields:`, Object.keys(newVariant))
             } else {
               console.log(
-                `[A/B Plugin] A/B testing already enabled for ${collectionSlug}, preserving existing variant content`,
+                `[A/B Plugin] A/B testing already enabled for ${entitySlug}, preserving existing variant content`,
               )
             }
 
-            // --- START: NEW LOGIC FOR THE AUTOMATIC URL FILTER ---
-            // Checks if A/B testing is enabled and if the URL filter is empty.
-            if (currentData.enableABTesting && !currentData.experimentUrlFilter) {
-              let host = 'runway.ac'
-              // Simulates the Live Preview logic to get the host
-              if (currentData.brand) {
-                const brandDoc = await req.payload.findByID({
-                  //@ts-ignore
-                  id: currentData.brand,
-                  collection: 'brands',
-                })
-                host = brandDoc?.host || host
-              }
-
-              const docSlug = (currentData.slug as string) || (originalDoc?.slug as string)
+            // Pre-fill newly added A/B/n variants with the original content
+            if (Array.isArray(currentData.abVariants)) {
+              const existingRowIds = new Set(
+                ((originalDoc?.abVariants as ABVariantRow[] | undefined) || []).map(
+                  (row) => row?.id,
+                ),
+              )
 
-              if (host && docSlug) {
-                let slugPath = ''
+              currentData.abVariants = (currentData.abVariants as ABVariantRow[]).map((row) => {
+                const hasContent =
+                  row?.content &&
+                  Object.values(row.content).some(
+                    (value) => value !== undefined && value !== null && value !== '',
+                  )
 
-                if (collectionSlug === 'advertorials') {
-                  slugPath = `/a/${docSlug}`
-                } else if (collectionSlug === 'thankYouPages') {
-                  slugPath = `/t/${docSlug}`
-                } else if (collectionSlug === 'vsl') {
-                  slugPath = `/v/${docSlug}`
-                } else {
-                  slugPath = docSlug !== 'home' ? `/${docSlug}` : ''
+                if ((row?.id && existingRowIds.has(row.id)) || hasContent) {
+                  return row
                 }
 
-                // Escape special characters for regex
-                const escapedHost = host.replace(/[*+?^${}()|[\]\\]/g, '\\$&') // Removed . from the character class
-                const escapedSlugPath = slugPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+                req.payload.logger.info(
+                  `[A/B Plugin] Pre-filling variant ${row?.key} for ${entitySlug} with the original content`,
+                )
+                return { ...row, content: copyContentToVariant(currentData, originalDoc) }
+              })
+            }
 
-                // Create the complete regular expression
-                const newUrlFilter =
-                  `^https://${escapedHost}${escapedSlugPath}(?:` + '\\\\?' + '.*)?$'
+            // Auto-generate the URL filter from the configured resolver when it is left empty
+            if (currentData.enableABTesting && !currentData.experimentUrlFilter) {
+              const newUrlFilter = await resolveUrlFilter({ ...originalDoc, ...currentData }, req)
 
+              if (newUrlFilter) {
                 currentData.experimentUrlFilter = newUrlFilter
                 req.payload.logger.info(
                   `[A/B Plugin] Automatically generated URL filter: ${newUrlFilter}`,
                 )
+                await auditLog?.recordInScope({
+                  action: 'url_filter_generated',
+                  message: `Generated the URL filter ${newUrlFilter}`,
+                })
               }
             }
-            // --- END: NEW LOGIC ---
-
-            // PostHog Feature Flag Management
-            // --- UPDATED: Pass experimentUrlFilter to the handler ---
-            await handlePostHogFeatureFlag(
-              currentData,
-              originalDoc,
-              collectionSlug,
-              req,
-              currentData.experimentUrlFilter as string,
-            )
 
-            // NEW LOGIC: Automatically populate the experimentName field
-            // If A/B testing is enabled and the experimentName field is empty,
-            // set it to the value of the posthogFeatureFlagKey.
-            // This provides a default value while still allowing manual overrides.
-            if (
-              currentData.enableABTesting &&
-              currentData.posthogFeatureFlagKey &&
-              !currentData.experimentName
-            ) {
-              currentData.experimentName = currentData.posthogFeatureFlagKey
+            // With drafts, the flag and experiment only go live when the document is published.
+            // Draft variant edits stay in the document's versions until then.
+            if (hasDrafts && currentData._status !== 'published') {
               req.payload.logger.info(
-                `[A/B Plugin] Automatically populated experimentName with feature flag key: ${currentData.experimentName}`,
+                `[A/B Plugin] Draft saved for ${entitySlug}, the experiment will sync on publish`,
               )
+            } else {
+              await handleFeatureFlagKeyChange(currentData, originalDoc, req)
+              await syncExperiment(currentData, originalDoc, req)
             }
-            // --- START: NEW LOGIC FOR EXPERIMENTS ---
-            // PostHog Experiment Management
-            await handlePostHogExperiment(currentData, originalDoc, req)
-            // --- END: NEW LOGIC FOR EXPERIMENTS ---
-          } else if (wasABTestingEnabled && !isABTestingEnabled) {
-            // A/B testing is being disabled
-            req.payload.logger.info(`[A/B Plugin] A/B testing disabled for ${collectionSlug}.`)
-            currentData.abVariant = {} // Clear variant data
-            req.payload.logger.info(
-              `[A/B Plugin] Clearing variant data for ${collectionSlug} as A/B testing is disabled.`,
-            )
-            // PostHog: Deactivate Feature Flag
-            // if (currentData.posthogFeatureFlagKey) {
-            //   await handlePostHogFeatureFlagDeactivation(currentData, req)
-            // }
           }
           return currentData
         } catch (error) {
           req.payload.logger.error(
-            `[A/B Plugin] Error in copyToVariantHook for ${collectionSlug}:`,
+            `[A/B Plugin] Error in copyToVariantHook for ${entitySlug}:`,
             error,
           )
           return currentData // Return current data on error to prevent save failure
         }
       }
 
+      // The flag key the visitors are served from. With drafts, earlier draft saves may already
+      // hold an edited key, so the published document is read.
+      const getLiveFeatureFlagKey = async (
+        originalDoc: Record<string, unknown> | undefined,
+        req: PayloadRequest,
+      ): Promise<string | undefined> => {
+        let liveDoc: null | Record<string, unknown> | undefined = originalDoc
+        if (hasDrafts) {
+          const id = originalDoc?.id as number | string | undefined
+          liveDoc = isGlobal
+            ? await req.payload.findGlobal({ slug: entitySlug, depth: 0, draft: false, req })
+            : id !== undefined
+              ? await req.payload.findByID({
+                  id,
+                  collection: entitySlug,
+                  depth: 0,
+                  disableErrors: true,
+                  draft: false,
+                  req,
+                })
+              : undefined
+        }
+
+        return liveDoc?.enableABTesting
+          ? (liveDoc.posthogFeatureFlagKey as string | undefined) || undefined
+          : undefined
+      }
+
+      // An edited key would create a new flag and leave the old one live: the old flag is
+      // deactivated and its experiment archived, the new key starts a new experiment.
+      // A cleared key keeps the live one.
+      async function handleFeatureFlagKeyChange(
+        currentData: Record<string, unknown>,
+        originalDoc: Record<string, unknown> | undefined,
+        req: PayloadRequest,
+      ): Promise<void> {
+        const liveFlagKey = await getLiveFeatureFlagKey(originalDoc, req)
+        const featureFlagKey = currentData.posthogFeatureFlagKey as string | undefined
+        if (!liveFlagKey || liveFlagKey === featureFlagKey) {
+          return
+        }
+
+        if (!featureFlagKey) {
+          currentData.posthogFeatureFlagKey = liveFlagKey
+          req.payload.logger.info(
+            `[A/B Plugin] Feature flag key of ${entitySlug} cleared, keeping ${liveFlagKey}`,
+          )
+          return
+        }
+
+        req.payload.logger.warn(
+          `[A/B Plugin] Feature flag key of ${entitySlug} changed from ${liveFlagKey} to ${featureFlagKey}. Deactivating the old flag and archiving its experiment, the new key starts a new experiment.`,
+        )
+        await provider.deactivateFlag(liveFlagKey)
+
+        try {
+          await provider.updateExperiment?.({ archived: true, featureFlagKey: liveFlagKey })
+        } catch (error) {
+          req.payload.logger.error(
+            `[A/B Plugin] Error archiving the experiment of flag ${liveFlagKey}:`,
+            error instanceof Error ? error.message : error,
+          )
+        }
+
+        currentData.posthogExperimentId = null
+        currentData.experimentStartedAt = null
+      }
+
+      // Syncs the feature flag and experiment of a published document with the provider,
+      // following the experiment's lifecycle status
+      async function syncExperiment(
+        currentData: Record<string, unknown>,
+        originalDoc: Record<string, unknown> | undefined,
+        req: PayloadRequest,
+      ): Promise<void> {
+        const status = getExperimentStatus(currentData)
+        const now = new Date().toISOString()
+
+        // Paused, concluded and archived experiments stop serving the variants
+        if (status !== 'draft' && status !== 'running') {
+          await handleExperimentStop(currentData, status, now, req)
+          return
+        }
+
+        if (status === 'running' && !currentData.experimentStartedAt) {
+          currentData.experimentStartedAt = now
+        }
+
+        // PostHog Feature Flag Management
+        // A draft experiment gets an inactive flag, so its key exists before it goes live
+        // --- UPDATED: Pass experimentUrlFilter to the handler ---
+        await handlePostHogFeatureFlag(
+          currentData,
+          originalDoc,
+          entitySlug,
+          req,
+          currentData.experimentUrlFilter as string,
+          status === 'running',
+        )
+
+        // NEW LOGIC: Automatically populate the experimentName field
+        // If A/B testing is enabled and the experimentName field is empty,
+        // set it to the value of the posthogFeatureFlagKey.
+        // This provides a default value while still allowing manual overrides.
+        if (
+          currentData.enableABTesting &&
+          currentData.posthogFeatureFlagKey &&
+          !currentData.experimentName
+        ) {
+          currentData.experimentName = currentData.posthogFeatureFlagKey
+          req.payload.logger.info(
+            `[A/B Plugin] Automatically populated experimentName with feature flag key: ${currentData.experimentName}`,
+          )
+        }
+
+        if (status === 'draft') {
+          return
+        }
+
+        // --- START: NEW LOGIC FOR EXPERIMENTS ---
+        // PostHog Experiment Management
+        await handlePostHogExperiment(currentData, originalDoc, req)
+        // --- END: NEW LOGIC FOR EXPERIMENTS ---
+      }
+
+      // Deactivates the flag of a paused, concluded or archived experiment, and records
+      // the end date or archived state of the experiment with the provider
+      async function handleExperimentStop(
+        currentData: Record<string, unknown>,
+        status: ExperimentStatus,
+        now: string,
+        req: PayloadRequest,
+      ): Promise<void> {
+        const featureFlagKey = currentData.posthogFeatureFlagKey as string | undefined
+        if (!featureFlagKey) {
+          return
+        }
+
+        req.payload.logger.info(
+          `[A/B Plugin] Experiment ${status} for ${entitySlug}, deactivating flag ${featureFlagKey}`,
+        )
+        await provider.deactivateFlag(featureFlagKey)
+
+        const concludes = status !== 'paused' && !currentData.experimentEndedAt
+        const archives = status === 'archived' && !currentData.experimentArchivedAt
+        if (!concludes && !archives) {
+          return
+        }
+
+        if (concludes) {
+          currentData.experimentEndedAt = now
+        }
+        if (archives) {
+          currentData.experimentArchivedAt = now
+        }
+
+        try {
+          await provider.updateExperiment?.({
+            archived: archives || undefined,
+            endDate: concludes ? now : undefined,
+            featureFlagKey,
+          })
+        } catch (error) {
+          // The flag is off either way, the experiment dates are informative
+          req.payload.logger.error(
+            `[A/B Plugin] Error updating the ${status} experiment of flag ${featureFlagKey}:`,
+            error instanceof Error ? error.message : error,
+          )
+        }
+      }
+
       // Helper function to handle PostHog feature flag creation/update
       async function handlePostHogFeatureFlag(
         currentData: Record<string, unknown>,
         originalDoc: any,
-        collectionSlug: string,
+        entitySlug: string,
         req: any,
         experimentUrlFilter: string,
+        active = true,
       ): Promise<void> {
         try {
           const featureFlagKey = currentData.posthogFeatureFlagKey as string | undefined
           const featureFlagName = currentData.posthogFeatureFlagName as string | undefined
-          const variantName = (currentData.posthogVariantName as string) || 'variant'
-          // Generate feature flag key if not provided (It is not necessary since this is done by the endpoint)
-          // if (!featureFlagKey) {
-          //   const docId = originalDoc?._id || originalDoc?.id || currentData.id || Date.now()
-          //   featureFlagKey = `posthog_ab_${collectionSlug}_${docId}`
-          //   currentData.posthogFeatureFlagKey = featureFlagKey
-          //   req.payload.logger.info(
-          //     `[A/B Plugin] Generated PostHog feature flag key: ${featureFlagKey}`,
-          //   )
-          // }
-
-          // Prepare the payload for the PostHog endpoint
-          const postHogPayload = {
+
+          // Every arm becomes its own key in the multivariate flag, with the editor's traffic split
+          const flag: ExperimentFlagDefinition = {
             name: featureFlagName,
+            active,
+            // A global may not have a stored ID before its first save, its slug identifies it
+            docId:
+              originalDoc?._id ||
+              originalDoc?.id ||
+              currentData.id ||
+              (isGlobal ? entitySlug : undefined),
             key: featureFlagKey,
-            // (originalDoc?.title as string) ||
-            // (currentData.title as string) ||
-            // `A/B Test: ${collectionSlug}`,
-            docId: originalDoc?._id || originalDoc?.id || currentData.id,
-            variantName,
-            // --- NEW: Add the URL filter to the payload ---
+            rolloutPercentage: getExperimentRolloutPercentage(currentData),
             urlFilter: experimentUrlFilter,
+            variants: getTrafficAllocation(currentData).map(({ name, key, trafficPercentage }) => ({
+              name,
+              key,
+              rolloutPercentage: trafficPercentage,
+            })),
           }
 
           req.payload.logger.info(
-            `[A/B Plugin] Calling PostHog endpoint to create/update feature flag: ${featureFlagKey}`,
-          )
-          req.payload.logger.info(
-            `[A/B Plugin] Full endpoint URL: ${req.payload.config.serverURL}/api/posthog/feature-flags`,
-          )
-          req.payload.logger.info(
-            `[A/B Plugin] Request payload:`,
-            JSON.stringify(postHogPayload, null, 2),
+            `[A/B Plugin] Calling ${provider.name} to create/update feature flag: ${featureFlagKey}`,
           )
+          req.payload.logger.info(`[A/B Plugin] Request payload:`, JSON.stringify(flag, null, 2))
 
-          // endpoints are registered directly on the config, they'll be available at /posthog/...
-          // FIXED: That didnt work so I added the correct endpoint path with /api prefix
-          const response = await fetch(
-            `${req.payload.config.serverURL}/api/posthog/feature-flags`,
-            {
-              body: JSON.stringify(postHogPayload),
-              headers: {
-                Authorization: `Bearer ${process.env.INTERNAL_API_TOKEN}`,
-                'Content-Type': 'application/json',
-              },
-              method: 'POST',
-            },
-          )
-          req.payload.logger.info(`[A/B Plugin] Server URL: ${req.payload.config.serverURL}`)
-          req.payload.logger.info(
-            `[A/B Plugin] Full endpoint URL: ${req.payload.config.serverURL}/posthog/feature-flags`,
-          )
-          req.payload.logger.info(`[A/B Plugin] Request payload:`, postHogPayload)
-          req.payload.logger.info(`[A/B Plugin] Response status: ${response.status}`)
-          const responseText = await response.text()
-          req.payload.logger.info(`[A/B Plugin] Response text: ${responseText}`)
-
-          if (!response.ok) {
-            let errorData
-            try {
-              errorData = JSON.parse(responseText)
-            } catch (e) {
-              errorData = { error: responseText }
-            }
-            throw new Error(`PostHog API error: ${response.status} - ${JSON.stringify(errorData)}`)
-          }
+          const result = await provider.upsertFlag(flag)
 
-          // Parse the response text as JSON since we already read it
-          let result
-          try {
-            result = JSON.parse(responseText)
-          } catch (e) {
-            result = { action: 'processed' } // Fallback if response is not JSON
+          // Keep the generated key so later saves update the same flag
+          if (!featureFlagKey) {
+            currentData.posthogFeatureFlagKey = result.key
           }
 
           req.payload.logger.info(
-            `[A/B Plugin] PostHog feature flag ${featureFlagKey} ${result.action || 'managed'} successfully`,
+            `[A/B Plugin] ${provider.name} feature flag ${result.key} ${result.action} successfully`,
           )
         } catch (error) {
           req.payload.logger.error(
-            '[A/B Plugin] Detailed error managing PostHog feature flag:',
+            '[A/B Plugin] Detailed error managing feature flag:',
             error instanceof Error
               ? {
                   message: error.message,
@@ -952,78 +2043,55 @@ export const abTestingPlugin =
           //   ? new Date(originalDoc.updatedAt).toISOString()
           //   : new Date().toISOString()
 
-          // Map the simple metrics array from Payload to the format PostHog expects
-          const formattedMetrics = experimentMetrics.map((metric) => ({
-            kind: 'ExperimentMetric',
-            // Generate a unique ID for each metric (a requirement of the PostHog API)
-            metric_type: 'funnel', // Assuming 'funnel' as a default for now
-            series: [
-              {
-                event: metric?.event || metric?.name || metric?.metric,
-                kind: 'EventsNode',
-                properties: [
-                  {
-                    type: 'event',
-                    key: 'flagKey',
-                    operator: 'exact',
-                    value: [posthogFeatureFlagKey],
-                  },
-                ],
-              },
-            ],
-            uuid: crypto.randomUUID(),
-          }))
-
-          // Prepare the payload for the PostHog experiments endpoint
-          const postHogExperimentPayload = {
-            name: experimentName || posthogFeatureFlagKey, // Use key as fallback
-            description: experimentDescription || `Experiment for ${posthogFeatureFlagKey}`,
-            feature_flag_key: posthogFeatureFlagKey,
-            filters: {}, // --- UPDATED: The filters are now handled by the feature flag endpoint
-            metrics: formattedMetrics,
-            // start_date: startDate, // --- When no passing a start date, it will be saved as "draft" in PostHog
+          // Map the simple metrics array from Payload to provider-agnostic metric definitions
+          const experiment: ExperimentDefinition = {
+            id: (currentData.posthogExperimentId as string) || undefined,
+            name: (experimentName as string) || (posthogFeatureFlagKey as string), // Use key as fallback
+            description:
+              (experimentDescription as string) ||
+              `Experiment for ${posthogFeatureFlagKey as string}`,
+            featureFlagKey: posthogFeatureFlagKey as string,
+            metrics: getExperimentMetrics(currentData, metricCatalog),
+            startDate: currentData.experimentStartedAt as string | undefined,
           }
 
-          req.payload.logger.info(
-            '[A/B Plugin] Calling PostHog endpoint to create/update experiment',
-          )
-          req.payload.logger.info(
-            `[A/B Plugin] Full endpoint URL: ${req.payload.config.serverURL}/api/posthog/experiments`,
-          )
+          // Incomplete metrics would create an experiment PostHog cannot compute
+          const invalidMetric = experiment.metrics
+            .map(validateMetricDefinition)
+            .find((result) => result !== true)
+          if (invalidMetric) {
+            req.payload.logger.error(
+              `[A/B Plugin] Cannot create experiment: ${invalidMetric}. Skipping experiment creation.`,
+            )
+            return
+          }
+
+          req.payload.logger.info(`[A/B Plugin] Calling ${provider.name} to sync experiment`)
           req.payload.logger.info(
             `[A/B Plugin] Request payload:`,
-            JSON.stringify(postHogExperimentPayload, null, 2),
+            JSON.stringify(experiment, null, 2),
           )
 
-          const response = await fetch(`${req.payload.config.serverURL}/api/posthog/experiments`, {
-            body: JSON.stringify(postHogExperimentPayload),
-            headers: {
-              Authorization: `Bearer ${process.env.INTERNAL_API_TOKEN}`,
-              'Content-Type': 'application/json',
-            },
-            method: 'POST',
-          })
+          // Providers without upserts only create the experiment until its ID is stored
+          if (!provider.upsertExperiment && experiment.id) {
+            return
+          }
 
-          if (!response.ok) {
-            const errorText = await response.text()
-            let errorData
-            try {
-              errorData = JSON.parse(errorText)
-            } catch (e) {
-              errorData = { error: errorText }
-            }
-            throw new Error(
-              `PostHog Experiments API error: ${response.status} - ${JSON.stringify(errorData)}`,
-            )
+          const result = provider.upsertExperiment
+            ? await provider.upsertExperiment(experiment)
+            : { action: 'created', ...(await provider.createExperiment(experiment)) }
+
+          // Keep the ID so later saves update the same experiment
+          if (result.id !== undefined && result.id !== null) {
+            currentData.posthogExperimentId = String(result.id)
           }
 
-          const result = await response.json()
           req.payload.logger.info(
-            `[A/B Plugin] PostHog experiment for flag "${posthogFeatureFlagKey}" created successfully with ID: ${result.id}`,
+            `[A/B Plugin] ${provider.name} experiment ${result.id} for flag "${experiment.featureFlagKey}" ${result.action}`,
           )
         } catch (error) {
           req.payload.logger.error(
-            '[A/B Plugin] Detailed error managing PostHog experiment:',
+            '[A/B Plugin] Detailed error managing experiment:',
             error instanceof Error ? error.message : error,
           )
           // Do not re-throw here, as experiment creation is secondary to the document save
@@ -1032,7 +2100,511 @@ export const abTestingPlugin =
       }
       // --- END: NEW HELPER FUNCTION FOR EXPERIMENTS ---
 
-      collection.hooks.beforeChange.push(copyToVariantHook)
+      // Fills a variant that has no localized content yet with the control's content of the
+      // same locale. Returns undefined when the variant already has content in that locale.
+      const fillLocalizedVariant = (
+        content: null | Record<string, unknown> | undefined,
+        controlCopy: Record<string, unknown>,
+        localizedFields: string[],
+      ): Record<string, unknown> | undefined => {
+        if (!localizedFields.every((name) => isEmptyLocalizedValue(content?.[name]))) {
+          return undefined
+        }
+
+        const filled = { ...content }
+        localizedFields.forEach((name) => {
+          if (controlCopy[name] !== undefined) {
+            filled[name] = controlCopy[name]
+          }
+        })
+
+        return filled
+      }
+
+      // Copies the control content into the variants of every other locale, since a save only
+      // writes the localized fields of the request's locale
+      const copyToOtherLocalesHook: AfterChangeHook = async ({ doc, req }) => {
+        const localizedFields = collectionLocalizedFieldMappings[mappingKey] || []
+
+        if (
+          localeCodes.length === 0 ||
+          localizedFields.length === 0 ||
+          !doc?.enableABTesting ||
+          req.context?.abTestingLocaleSync
+        ) {
+          return doc
+        }
+
+        // Draft edits must stay in versions, so drafts are read and written as drafts
+        const draft = hasDrafts && doc._status !== 'published'
+
+        // The Local API sets the locale and context on the request it is given, restore them after
+        const { context, fallbackLocale, locale } = req
+
+        try {
+          for (const otherLocale of localeCodes.filter((code) => code !== locale)) {
+            const findArgs = {
+              depth: 0,
+              draft,
+              fallbackLocale: false as const,
+              locale: otherLocale,
+              req,
+            }
+            const localeDoc = (
+              isGlobal
+                ? await req.payload.findGlobal({ slug: entitySlug, ...findArgs })
+                : await req.payload.findByID({ id: doc.id, collection: entitySlug, ...findArgs })
+            ) as Record<string, unknown>
+
+            const controlCopy = copyContentToVariant(localeDoc, undefined)
+            const abVariant = fillLocalizedVariant(
+              localeDoc.abVariant as Record<string, unknown> | undefined,
+              controlCopy,
+              localizedFields,
+            )
+
+            let rowsChanged = false
+            const abVariants = ((localeDoc.abVariants as ABVariantRow[] | undefined) || []).map(
+              (row) => {
+                const content = fillLocalizedVariant(row.content, controlCopy, localizedFields)
+                if (!content) {
+                  return row
+                }
+                rowsChanged = true
+                return { ...row, content }
+              },
+            )
+
+            if (!abVariant && !rowsChanged) {
+              continue
+            }
+
+            req.payload.logger.info(
+              `[A/B Plugin] Copying ${entitySlug} content to the "${otherLocale}" variants`,
+            )
+            const updateArgs = {
+              context: { abTestingLocaleSync: true },
+              data: {
+                ...(abVariant ? { abVariant } : {}),
+                ...(rowsChanged ? { abVariants } : {}),
+              },
+              depth: 0,
+              draft,
+              locale: otherLocale,
+              req,
+            }
+            if (isGlobal) {
+              await req.payload.updateGlobal({ slug: entitySlug, ...updateArgs })
+            } else {
+              await req.payload.update({ id: doc.id, collection: entitySlug, ...updateArgs })
+            }
+          }
+        } catch (error) {
+          req.payload.logger.error(
+            `[A/B Plugin] Error copying variant content to other locales for ${entitySlug}:`,
+            error,
+          )
+        } finally {
+          req.context = context
+          req.fallbackLocale = fallbackLocale
+          req.locale = locale
+        }
+
+        return doc
+      }
+
+      // Restoring a version only runs afterChange hooks, so a change that did not go through
+      // copyToVariantHook is a restore. The restored experiment configuration is synced like a publish.
+      const restoreExperimentHook: AfterChangeHook = async (args) => {
+        const { doc, previousDoc, req } = args
+        const operation = 'operation' in args ? args.operation : undefined
+        const changeKey = getChangeKey(doc?.id)
+        const changedKeys = (req.context?.abTestingBeforeChange as string[] | undefined) || []
+
+        if (operation === 'create' || changedKeys.includes(changeKey)) {
+          if (changedKeys.includes(changeKey)) {
+            req.context.abTestingBeforeChange = changedKeys.filter((key) => key !== changeKey)
+          }
+          return doc
+        }
+
+        if (
+          !doc?.enableABTesting ||
+          !doc.posthogFeatureFlagKey ||
+          (hasDrafts && doc._status !== 'published')
+        ) {
+          return doc
+        }
+
+        req.payload.logger.info(
+          `[A/B Plugin] Version restored for ${entitySlug}, syncing its experiment configuration`,
+        )
+
+        try {
+          const synced: Record<string, unknown> = { ...doc }
+          await syncExperiment(synced, previousDoc, req)
+
+          // Keep the fields generated by the sync, e.g. the experiment ID or start date. The
+          // save skips the sync like the locale sync does, as the provider is up to date.
+          const generated = Object.fromEntries(
+            Object.entries(synced).filter(([key, value]) => value !== doc[key]),
+          )
+          if (Object.keys(generated).length === 0) {
+            return doc
+          }
+
+          const updateArgs = {
+            context: { abTestingLocaleSync: true },
+            data: generated,
+            depth: 0,
+            req,
+          }
+          if (isGlobal) {
+            await req.payload.updateGlobal({ slug: entitySlug, ...updateArgs })
+          } else {
+            await req.payload.update({ id: doc.id, collection: entitySlug, ...updateArgs })
+          }
+
+          return { ...doc, ...generated }
+        } catch (error) {
+          req.payload.logger.error(
+            `[A/B Plugin] Error syncing the restored experiment for ${entitySlug}:`,
+            error,
+          )
+        }
+
+        return doc
+      }
+
+      // Copies the content of blocks that start an experiment into their variant, and syncs
+      // the flags of block experiments like the document's own experiment
+      const blockExperimentsHook: BeforeChangeHook = async ({
+        data: currentData,
+        originalDoc,
+        req,
+      }): Promise<Record<string, unknown>> => {
+        const blockFields = collectionBlockFields[mappingKey]
+
+        if (!blockFields || req.context?.abTestingLocaleSync) {
+          return currentData
+        }
+
+        const previousBlocks = findBlockExperiments(originalDoc)
+        const blocks = findBlockExperiments(currentData)
+        const shouldSync = !hasDrafts || currentData._status === 'published'
+
+        // Field validation runs after this hook, so edited keys are checked before a flag of
+        // another document is updated with them
+        const errors: ValidationFieldError[] = []
+        for (const block of blocks) {
+          const previousBlock = previousBlocks.find((previous) => previous.id === block.id)
+          if (
+            !block.enableABTesting ||
+            !block.posthogFeatureFlagKey ||
+            block.posthogFeatureFlagKey === previousBlock?.posthogFeatureFlagKey
+          ) {
+            continue
+          }
+
+          const validation = await validateFeatureFlagKey(
+            block.posthogFeatureFlagKey,
+            req,
+            getFeatureFlagKeyScope(
+              entitySlug,
+              isGlobal,
+              originalDoc?.id as number | string | undefined,
+              currentData,
+            ),
+          )
+          if (validation !== true) {
+            errors.push({
+              label: `Feature flag key of a ${block.blockType} block`,
+              message: validation,
+              path: 'posthogFeatureFlagKey',
+            })
+          }
+        }
+
+        if (errors.length > 0) {
+          throw new ValidationError(
+            {
+              collection: isGlobal ? undefined : entitySlug,
+              errors,
+              global: isGlobal ? entitySlug : undefined,
+            },
+            req.t,
+          )
+        }
+
+        for (const block of blocks) {
+          if (!block.enableABTesting) {
+            block.abVariant = {}
+            continue
+          }
+
+          const previousBlock = previousBlocks.find((previous) => previous.id === block.id)
+          if (!previousBlock?.enableABTesting) {
+            req.payload.logger.info(
+              `[A/B Plugin] Enabling A/B testing for a ${block.blockType} block of ${entitySlug}, copying content to variant`,
+            )
+            block.abVariant = sanitizeObject(
+              pickFieldData(block, blockFields[block.blockType] || []),
+            )
+          }
+
+          if (!shouldSync) {
+            continue
+          }
+
+          try {
+            const result = await provider.upsertFlag({
+              name: `A/B Test: ${entitySlug} ${block.blockType} block`,
+              docId: block.id || block.blockType,
+              key: block.posthogFeatureFlagKey || undefined,
+              variants: getTrafficAllocation(block).map(({ name, key, trafficPercentage }) => ({
+                name,
+                key,
+                rolloutPercentage: trafficPercentage,
+              })),
+            })
+            block.posthogFeatureFlagKey = result.key
+
+            req.payload.logger.info(
+              `[A/B Plugin] ${provider.name} feature flag ${result.key} ${result.action} for a ${block.blockType} block`,
+            )
+          } catch (error) {
+            req.payload.logger.error(
+              `[A/B Plugin] Error managing the feature flag of a ${block.blockType} block of ${entitySlug}:`,
+              error,
+            )
+            throw error
+          }
+        }
+
+        if (!shouldSync) {
+          return currentData
+        }
+
+        // Blocks that were removed or stopped their experiment serve the control from now on
+        const stoppedFlagKeys = previousBlocks
+          .filter((previous) => previous.enableABTesting && previous.posthogFeatureFlagKey)
+          .map((previous) => previous.posthogFeatureFlagKey as string)
+          .filter(
+            (key) =>
+              !blocks.some((block) => block.enableABTesting && block.posthogFeatureFlagKey === key),
+          )
+
+        for (const key of stoppedFlagKeys) {
+          try {
+            await provider.deactivateFlag(key)
+            req.payload.logger.info(`[A/B Plugin] Deactivated the block feature flag ${key}`)
+          } catch (error) {
+            req.payload.logger.error(
+              `[A/B Plugin] Error deactivating the block feature flag ${key}:`,
+              error,
+            )
+          }
+        }
+
+        return currentData
+      }
+
+      // Queues the jobs of a changed schedule, once the schedule is live
+      const scheduleExperimentHook: AfterChangeHook = async ({ doc, previousDoc, req }) => {
+        if (req.context?.abTestingLocaleSync || (hasDrafts && doc?._status !== 'published')) {
+          return doc
+        }
+
+        try {
+          await scheduleExperimentJobs({
+            collection: isGlobal ? undefined : entitySlug,
+            doc,
+            global: isGlobal ? entitySlug : undefined,
+            previousDoc,
+            queue: schedulingQueue,
+            req,
+          })
+        } catch (error) {
+          req.payload.logger.error(
+            `[A/B Plugin] Error scheduling the experiment for ${entitySlug}:`,
+            error,
+          )
+        }
+
+        return doc
+      }
+
+      // Records who enabled, disabled or changed the status of the experiment
+      const auditLogHook: AfterChangeHook = async (args) => {
+        const { doc, previousDoc, req } = args
+        const operation = 'operation' in args ? args.operation : undefined
+        if (!auditLog || req.context?.abTestingLocaleSync) {
+          return doc
+        }
+
+        const previous = operation === 'create' ? undefined : previousDoc
+        const label = isGlobal ? `global ${entitySlug}` : `${entitySlug} ${doc?.id}`
+        const target = {
+          collection: isGlobal ? undefined : entitySlug,
+          documentId: isGlobal ? undefined : doc?.id,
+          flagKey: doc?.posthogFeatureFlagKey || undefined,
+          global: isGlobal ? entitySlug : undefined,
+        }
+
+        const wasEnabled = previous?.enableABTesting === true
+        const isEnabled = doc?.enableABTesting === true
+        if (isEnabled !== wasEnabled) {
+          await auditLog.record(req, {
+            ...target,
+            action: isEnabled ? 'enabled' : 'disabled',
+            message: `A/B testing ${isEnabled ? 'enabled' : 'disabled'} for ${label}`,
+          })
+        }
+
+        // New experiments start as drafts, only a different initial status is a transition
+        const fromStatus = previous?.experimentStatus as ExperimentStatus | undefined
+        const toStatus = doc?.experimentStatus as ExperimentStatus | undefined
+        if (toStatus && toStatus !== fromStatus && (fromStatus || toStatus !== 'draft')) {
+          await auditLog.record(req, {
+            ...target,
+            action: 'status_changed',
+            fromStatus,
+            message: `Experiment of ${label} moved from ${fromStatus || 'no status'} to ${toStatus}`,
+            toStatus,
+          })
+        }
+
+        return doc
+      }
+
+      // Turns off or deletes the flags of a deleted document and of its block experiments, and
+      // archives their experiments. The document is gone, so failures are only logged.
+      const cleanupExperimentHook: CollectionAfterDeleteHook = async ({ doc, req }) => {
+        const flagKeys = [
+          doc?.posthogFeatureFlagKey,
+          ...findBlockExperiments(doc).map((block) => block.posthogFeatureFlagKey),
+        ].filter((key): key is string => typeof key === 'string' && key.length > 0)
+
+        for (const key of new Set(flagKeys)) {
+          try {
+            await provider.deactivateFlag(key)
+            await provider.updateExperiment?.({ archived: true, featureFlagKey: key })
+            if (deleteCleanup === 'delete') {
+              await provider.deleteFlag?.(key)
+            }
+
+            req.payload.logger.info(
+              `[A/B Plugin] Cleaned up flag ${key} of deleted ${entitySlug} ${doc?.id} (${deleteCleanup})`,
+            )
+          } catch (error) {
+            req.payload.logger.error(
+              `[A/B Plugin] Error cleaning up flag ${key} of deleted ${entitySlug} ${doc?.id}:`,
+              error instanceof Error ? error.message : error,
+            )
+          }
+        }
+
+        return doc
+      }
+
+      // Entries recorded while a hook runs, e.g. PostHog requests, reference the document being saved
+      const withAuditScope = <
+        Args extends { doc?: unknown; originalDoc?: unknown; req: PayloadRequest },
+        Result,
+      >(
+        hook: (args: Args) => Result,
+      ): ((args: Args) => Result) => {
+        if (!auditLog) {
+          return hook
+        }
+
+        return (args) => {
+          type Document = { id?: number | string } | undefined
+          const documentId = (args.doc as Document)?.id ?? (args.originalDoc as Document)?.id
+
+          return auditLog.runInScope(
+            {
+              collection: isGlobal ? undefined : entitySlug,
+              documentId: isGlobal ? undefined : documentId,
+              global: isGlobal ? entitySlug : undefined,
+              req: args.req,
+            },
+            () => hook(args),
+          )
+        }
+      }
+
+      hooks.beforeChange = [
+        ...(hooks.beforeChange || []),
+        withAuditScope(copyToVariantHook),
+        withAuditScope(blockExperimentsHook),
+      ]
+      hooks.afterChange = [
+        ...(hooks.afterChange || []),
+        withAuditScope(restoreExperimentHook),
+        copyToOtherLocalesHook,
+        ...(schedulingEnabled ? [scheduleExperimentHook] : []),
+        ...(auditLog ? [auditLogHook] : []),
+      ]
+
+      // Globals cannot be deleted
+      if (!isGlobal && deleteCleanup !== 'keep') {
+        hooks.afterDelete = [...(hooks.afterDelete || []), withAuditScope(cleanupExperimentHook)]
+      }
+    }
+
+    // Add collection-specific hooks instead of a global one
+    Object.keys(collectionsConfig).forEach((collectionSlug) => {
+      // Skip if collection is not enabled
+      const collectionConfig = collectionsConfig[collectionSlug]
+      if (collectionConfig?.enabled === false) {
+        return
+      }
+
+      // Find the collection to add the hook to
+      const collection = config.collections?.find((c) => c.slug === collectionSlug)
+      if (!collection) {
+        return
+      }
+
+      addABTestingHooks(collection, {
+        isGlobal: false,
+        mappingKey: collectionSlug,
+        resolveUrlFilter: (doc, req) =>
+          resolveExperimentUrlFilter(
+            collectionConfig.resolveExperimentUrl ||
+              pluginOptions.resolveExperimentUrl ||
+              defaultResolveExperimentUrl,
+            doc,
+            { collectionSlug, req },
+          ),
+      })
+    })
+
+    // Globals render on many pages, so their URL filter is only generated by their own resolver
+    Object.keys(globalsConfig).forEach((globalSlug) => {
+      const globalConfig = globalsConfig[globalSlug]
+      if (globalConfig?.enabled === false) {
+        return
+      }
+
+      const global = config.globals?.find((g) => g.slug === globalSlug)
+      if (!global) {
+        return
+      }
+
+      const resolveGlobalUrl = globalConfig.resolveExperimentUrl
+
+      addABTestingHooks(global, {
+        isGlobal: true,
+        mappingKey: getGlobalMappingKey(globalSlug),
+        resolveUrlFilter: async (doc, req) => {
+          const url = resolveGlobalUrl
+            ? await resolveGlobalUrl(doc, { globalSlug, req })
+            : undefined
+          return url ? buildExperimentUrlFilter(url) : undefined
+        },
+      })
     })
 
     return config
@@ -0,0 +1,37 @@
+import type { ExperimentProvider } from '../types/index.js'
+
+import { assignVariant } from '../utilities/bucketing.js'
+
+/**
+ * Experimentation provider that needs no external service.
+ * Variants are assigned with a stable hash of the distinct ID and flag key, weighted by the
+ * traffic allocation stored on the Payload document. Flag and experiment management are no-ops.
+ *
+ * Useful for local development, tests and air-gapped environments, or as the
+ * `fallbackProvider` of `getServerSideABVariant` when PostHog is unreachable.
+ */
+export const createLocalProvider = (): ExperimentProvider => ({
+  name: 'local',
+
+  captureExposure: () => Promise.resolve(),
+
+  createExperiment: (experiment) => Promise.resolve({ id: experiment.featureFlagKey }),
+
+  deactivateFlag: () => Promise.resolve({ found: false }),
+
+  getVariant: ({ distinctId, flagKey, rolloutPercentage, variants }) =>
+    Promise.resolve(
+      assignVariant({
+        distinctId,
+        flagKey,
+        rolloutPercentage,
+        variants: variants || [],
+      }),
+    ),
+
+  upsertFlag: (flag) =>
+    Promise.resolve({
+      action: flag.key ? 'updated' : 'created',
+      key: flag.key || `ab_test_${flag.docId}`,
+    }),
+})
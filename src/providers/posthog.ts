@@ -0,0 +1,662 @@
+import { PostHog } from 'posthog-node'
+
+import type {
+  ExperimentDefinition,
+  ExperimentFlagDefinition,
+  ExperimentProvider,
+  PostHogConfig,
+} from '../types/index.js'
+
+import { getMetricKey } from '../utilities/metrics.js'
+
+type PostHogPropertyFilter = {
+  key: string
+  operator: string
+  type: string
+  value: unknown
+}
+
+type PostHogFeatureFlag = {
+  active?: boolean
+  filters?: PostHogFlagFilters
+  id: number
+  key: string
+  name?: string
+}
+
+type PostHogExperiment = {
+  description?: null | string
+  feature_flag_key: string
+  id: number
+  metrics?: Record<string, unknown>[]
+  name: string
+}
+
+/**
+ * Filters of a PostHog multivariate feature flag
+ */
+export type PostHogFlagFilters = {
+  groups: {
+    properties: PostHogPropertyFilter[]
+    rollout_percentage: null | number
+  }[]
+  multivariate: {
+    variants: { key: string; name: string; rollout_percentage: number }[]
+  }
+}
+
+/**
+ * Result of a call to the PostHog REST API. Never throws on HTTP errors,
+ * so callers can forward the status code.
+ */
+export type PostHogApiResult<T = unknown> = {
+  data?: T
+  errorText?: string
+  ok: boolean
+  status: number
+}
+
+/**
+ * Request sent to the PostHog REST API, with the status of its response
+ */
+export type PostHogApiRequest = {
+  body?: unknown
+  method: string
+  path: string
+  status: number
+}
+
+/**
+ * Options of the PostHog REST API client
+ */
+export type PostHogApiOptions = {
+  /**
+   * Called after every request, e.g. to record it in the audit log
+   */
+  onRequest?: (request: PostHogApiRequest) => Promise<void> | void
+}
+
+/**
+ * Builds the multivariate filters of a PostHog feature flag from a flag definition
+ */
+export const buildPostHogFlagFilters = (flag: ExperimentFlagDefinition): PostHogFlagFilters => {
+  const filters: PostHogFlagFilters = {
+    groups: [
+      {
+        properties: [],
+        // PostHog treats null as 100%
+        rollout_percentage:
+          flag.rolloutPercentage === undefined || flag.rolloutPercentage === 100
+            ? null
+            : flag.rolloutPercentage,
+      },
+    ],
+    multivariate: {
+      variants: flag.variants.map((variant) => ({
+        name: variant.name,
+        key: variant.key,
+        rollout_percentage: variant.rolloutPercentage,
+      })),
+    },
+  }
+
+  if (flag.urlFilter) {
+    filters.groups[0].properties.push({
+      type: 'person',
+      key: '$current_url',
+      operator: 'regex',
+      value: flag.urlFilter,
+    })
+  }
+
+  return filters
+}
+
+/**
+ * Thin client for the PostHog REST API, authenticated with a personal API key
+ */
+export const createPostHogApi = (
+  posthogConfig?: PostHogConfig,
+  { onRequest }: PostHogApiOptions = {},
+) => {
+  const posthogApiKey = posthogConfig?.apiKey || process.env.POSTHOG_PERSONAL_API_KEY || ''
+  const posthogApiHost = posthogConfig?.host || process.env.POSTHOG_HOST || 'https://us.posthog.com'
+  const posthogProjectId = posthogConfig?.projectId || process.env.POSTHOG_PROJECT_ID || ''
+
+  const request = async <T = unknown>(
+    path: string,
+    init?: RequestInit,
+  ): Promise<PostHogApiResult<T>> => {
+    if (!posthogApiKey || !posthogProjectId) {
+      throw new Error('PostHog API key or Project ID not configured')
+    }
+
+    const response = await fetch(`${posthogApiHost}/api/projects/${posthogProjectId}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${posthogApiKey}`,
+        'Content-Type': 'application/json',
+      },
+    })
+
+    await onRequest?.({
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+      method: init?.method || 'GET',
+      path,
+      status: response.status,
+    })
+
+    if (!response.ok) {
+      return { errorText: await response.text(), ok: false, status: response.status }
+    }
+
+    // Deletions answer with an empty body
+    const data = response.status === 204 ? undefined : ((await response.json()) as T)
+
+    return { data, ok: true, status: response.status }
+  }
+
+  return {
+    createExperiment: (body: Record<string, unknown>) =>
+      request<PostHogExperiment>('/experiments/', { body: JSON.stringify(body), method: 'POST' }),
+    createFeatureFlag: (body: Record<string, unknown>) =>
+      request<PostHogFeatureFlag>('/feature_flags/', {
+        body: JSON.stringify(body),
+        method: 'POST',
+      }),
+    deleteExperiment: (id: number | string) => request(`/experiments/${id}/`, { method: 'DELETE' }),
+    /**
+     * Looks up a feature flag by its exact key. Resolves to undefined when it does not exist.
+     */
+    findFeatureFlag: async (key: string) => {
+      const result = await request<{ results?: PostHogFeatureFlag[] }>(
+        `/feature_flags/?search=${encodeURIComponent(key)}`,
+        { method: 'GET' },
+      )
+
+      return {
+        ...result,
+        data: result.data?.results?.find((flag) => flag.key === key),
+      }
+    },
+    /**
+     * Looks up the experiment of a feature flag. Resolves to undefined when it does not exist.
+     */
+    findExperimentByFlagKey: async (featureFlagKey: string) => {
+      const result = await request<{ results?: PostHogExperiment[] }>('/experiments/?limit=1000', {
+        method: 'GET',
+      })
+
+      return {
+        ...result,
+        data: result.data?.results?.find(
+          (experiment) => experiment.feature_flag_key === featureFlagKey,
+        ),
+      }
+    },
+    getExperiment: (id: number | string) =>
+      request<PostHogExperiment>(`/experiments/${id}/`, { method: 'GET' }),
+    listExperiments: () =>
+      request<{ results?: PostHogExperiment[] }>('/experiments/', { method: 'GET' }),
+    listFeatureFlags: () =>
+      request<{ results?: PostHogFeatureFlag[] }>('/feature_flags/', { method: 'GET' }),
+    /**
+     * Runs a HogQL query, with `{name}` placeholders filled from `values`
+     */
+    query: <T = unknown[][]>(query: string, values?: Record<string, unknown>) =>
+      request<{ results?: T }>('/query/', {
+        body: JSON.stringify({ query: { kind: 'HogQLQuery', query, values } }),
+        method: 'POST',
+      }),
+    updateExperiment: (id: number | string, body: Record<string, unknown>) =>
+      request<PostHogExperiment>(`/experiments/${id}/`, {
+        body: JSON.stringify(body),
+        method: 'PATCH',
+      }),
+    updateFeatureFlag: (id: number | string, body: Record<string, unknown>) =>
+      request<PostHogFeatureFlag>(`/feature_flags/${id}/`, {
+        body: JSON.stringify(body),
+        method: 'PATCH',
+      }),
+  }
+}
+
+/**
+ * Creates a PostHog feature flag, or updates the existing flag with the same key
+ */
+export const upsertPostHogFeatureFlag = async (
+  api: ReturnType<typeof createPostHogApi>,
+  flag: ExperimentFlagDefinition,
+) => {
+  const key = flag.key || `posthog_ab_${flag.docId}_${Date.now()}`
+  const name = flag.name || `A/B Test: ${flag.docId}`
+  const filters = buildPostHogFlagFilters(flag)
+  const active = flag.active ?? true
+
+  const existing = await api.findFeatureFlag(key)
+
+  if (existing.data?.id) {
+    const result = await api.updateFeatureFlag(existing.data.id, { name, active, filters })
+    if (!result.ok) {
+      throw new Error(`Failed to update feature flag: ${result.status} - ${result.errorText}`)
+    }
+
+    return { action: 'updated' as const, featureFlag: result.data, key }
+  }
+
+  const result = await api.createFeatureFlag({
+    name,
+    active,
+    ensure_persistence: true,
+    filters,
+    key,
+  })
+  if (!result.ok) {
+    throw new Error(`Failed to create feature flag: ${result.status} - ${result.errorText}`)
+  }
+
+  return { action: 'created' as const, featureFlag: result.data, key }
+}
+
+/**
+ * Deactivates the PostHog feature flag with the given key, if it exists
+ */
+export const deactivatePostHogFeatureFlag = async (
+  api: ReturnType<typeof createPostHogApi>,
+  key: string,
+) => {
+  const existing = await api.findFeatureFlag(key)
+
+  if (!existing.ok) {
+    throw new Error(
+      `Failed to find flag ${key} for deactivation: ${existing.status} - ${existing.errorText}`,
+    )
+  }
+
+  if (!existing.data?.id) {
+    return { featureFlag: undefined, found: false }
+  }
+
+  const result = await api.updateFeatureFlag(existing.data.id, { active: false })
+  if (!result.ok) {
+    throw new Error(`Failed to deactivate feature flag: ${result.status} - ${result.errorText}`)
+  }
+
+  return { featureFlag: result.data, found: true }
+}
+
+/**
+ * Soft-deletes a PostHog feature flag, PostHog keeps deleted flags out of evaluation and lists
+ */
+export const deletePostHogFeatureFlag = async (
+  api: ReturnType<typeof createPostHogApi>,
+  key: string,
+) => {
+  const existing = await api.findFeatureFlag(key)
+
+  if (!existing.ok) {
+    throw new Error(
+      `Failed to find flag ${key} for deletion: ${existing.status} - ${existing.errorText}`,
+    )
+  }
+
+  if (!existing.data?.id) {
+    return { found: false }
+  }
+
+  const result = await api.updateFeatureFlag(existing.data.id, { active: false, deleted: true })
+  if (!result.ok) {
+    throw new Error(`Failed to delete feature flag: ${result.status} - ${result.errorText}`)
+  }
+
+  return { found: true }
+}
+
+/**
+ * Maps the plugin's metric definitions to PostHog experiment metrics. Funnels measure the
+ * conversion through their ordered steps, trends the event count and means the sum of a
+ * numeric property per exposed user. PostHog attributes the events to the variants through
+ * the flag exposures, so the events need no experiment property.
+ */
+const buildPostHogMetrics = (experiment: ExperimentDefinition) =>
+  experiment.metrics.map((metric) => {
+    const properties = (metric.properties || []).map((filter) => ({
+      type: 'event',
+      key: filter.key,
+      operator: filter.operator || 'exact',
+      value: filter.value,
+    }))
+    const toEventsNode = (event: string) => ({ event, kind: 'EventsNode', properties })
+
+    return {
+      name: metric.name,
+      kind: 'ExperimentMetric',
+      ...(metric.type === 'trend' || metric.type === 'mean'
+        ? {
+            metric_type: 'mean',
+            source: {
+              ...toEventsNode(metric.event),
+              math: metric.type === 'mean' ? 'sum' : 'total',
+              ...(metric.type === 'mean' ? { math_property: metric.property } : {}),
+            },
+          }
+        : {
+            metric_type: 'funnel',
+            series: [metric.event, ...(metric.steps || [])].map(toEventsNode),
+          }),
+      // A unique ID for each metric is a requirement of the PostHog API
+      uuid: crypto.randomUUID(),
+    }
+  })
+
+/**
+ * Whether every value set in `expected` is found in `actual`. PostHog adds defaults to the
+ * metrics it stores and may reorder their keys, so they cannot be compared as a whole.
+ */
+const matchesStoredValue = (expected: unknown, actual: unknown): boolean => {
+  if (expected === undefined) {
+    return true
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesStoredValue(item, actual[index]))
+    )
+  }
+
+  if (expected && typeof expected === 'object') {
+    return (
+      Boolean(actual) &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) =>
+        matchesStoredValue(value, (actual as Record<string, unknown>)[key]),
+      )
+    )
+  }
+
+  return expected === actual
+}
+
+/**
+ * Compares metrics with the ones stored on a PostHog experiment, ignoring their IDs.
+ * Unchanged metrics keep their stored ID, so PostHog keeps their results.
+ */
+const diffPostHogMetrics = (
+  metrics: ReturnType<typeof buildPostHogMetrics>,
+  stored: Record<string, unknown>[] = [],
+) => {
+  const unchanged = metrics.map((metric, index) =>
+    matchesStoredValue({ ...metric, uuid: undefined }, stored[index]),
+  )
+
+  return {
+    changed: metrics.length !== stored.length || unchanged.includes(false),
+    metrics: metrics.map((metric, index) =>
+      unchanged[index] && typeof stored[index]?.uuid === 'string'
+        ? { ...metric, uuid: stored[index].uuid }
+        : metric,
+    ),
+  }
+}
+
+/**
+ * Looks up the experiment of a definition, by its stored ID first and by its flag key when
+ * it has no ID, or when the stored experiment was deleted or belongs to another flag.
+ * Resolves to undefined when it does not exist.
+ */
+const findPostHogExperiment = async (
+  api: ReturnType<typeof createPostHogApi>,
+  { id, featureFlagKey }: ExperimentDefinition,
+) => {
+  if (id) {
+    const result = await api.getExperiment(id)
+    if (result.ok && result.data?.feature_flag_key === featureFlagKey) {
+      return result.data
+    }
+    if (!result.ok && result.status !== 404) {
+      throw new Error(`Failed to fetch experiment ${id}: ${result.status} - ${result.errorText}`)
+    }
+  }
+
+  const result = await api.findExperimentByFlagKey(featureFlagKey)
+  if (!result.ok) {
+    throw new Error(
+      `Failed to find the experiment of flag ${featureFlagKey}: ${result.status} - ${result.errorText}`,
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Creates a PostHog experiment for an existing feature flag
+ */
+const createPostHogExperiment = async (
+  api: ReturnType<typeof createPostHogApi>,
+  experiment: ExperimentDefinition,
+) => {
+  const result = await api.createExperiment({
+    name: experiment.name,
+    description: experiment.description,
+    feature_flag_key: experiment.featureFlagKey,
+    filters: {}, // The filters are handled by the feature flag
+    metrics: buildPostHogMetrics(experiment),
+    start_date: experiment.startDate,
+  })
+
+  if (!result.ok) {
+    throw new Error(`Failed to create experiment: ${result.status} - ${result.errorText}`)
+  }
+
+  return { id: result.data?.id }
+}
+
+/**
+ * Creates the PostHog experiment of a feature flag, or updates the name, description and
+ * metrics of the existing one when they changed
+ */
+export const upsertPostHogExperiment = async (
+  api: ReturnType<typeof createPostHogApi>,
+  experiment: ExperimentDefinition,
+) => {
+  const existing = await findPostHogExperiment(api, experiment)
+  if (!existing) {
+    const { id } = await createPostHogExperiment(api, experiment)
+    return { id, action: 'created' as const }
+  }
+
+  const description = experiment.description || ''
+  const metrics = diffPostHogMetrics(buildPostHogMetrics(experiment), existing.metrics)
+  const changes = {
+    ...(existing.name !== experiment.name ? { name: experiment.name } : {}),
+    ...((existing.description || '') !== description ? { description } : {}),
+    ...(metrics.changed ? { metrics: metrics.metrics } : {}),
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { id: existing.id, action: 'unchanged' as const }
+  }
+
+  const result = await api.updateExperiment(existing.id, changes)
+  if (!result.ok) {
+    throw new Error(`Failed to update experiment: ${result.status} - ${result.errorText}`)
+  }
+
+  return { id: existing.id, action: 'updated' as const }
+}
+
+/**
+ * Turns `[variant, count]` rows of a HogQL query into counts per variant key
+ */
+const toVariantCounts = (rows: undefined | unknown[][]): Record<string, number> =>
+  Object.fromEntries(
+    (rows || [])
+      .filter(([variant]) => typeof variant === 'string' && variant)
+      .map(([variant, count]) => [variant as string, Number(count) || 0]),
+  )
+
+/**
+ * Counts unique persons exposed to each variant of a flag, and unique persons who converted on
+ * each metric: who sent every step of a funnel, or the event of a mean or trend. Means and
+ * trends also get their total per variant, the sum of the property or the number of events.
+ * Conversions are attributed with the `$feature/<flagKey>` property that posthog-js adds to
+ * events sent while the flag is active.
+ */
+const getPostHogResults = async (
+  api: ReturnType<typeof createPostHogApi>,
+  { flagKey, metrics }: { flagKey: string; metrics: ExperimentDefinition['metrics'] },
+) => {
+  const exposures = await api.query(
+    `SELECT properties.$feature_flag_response AS variant, count(DISTINCT person_id)
+     FROM events
+     WHERE event = '$feature_flag_called' AND properties.$feature_flag = {flagKey}
+     GROUP BY variant`,
+    { flagKey },
+  )
+  if (!exposures.ok) {
+    throw new Error(`Failed to query exposures: ${exposures.status} - ${exposures.errorText}`)
+  }
+
+  const flagProperty = `$feature/${flagKey}`
+  const conversions: Record<string, Record<string, number>> = {}
+  const values: Record<string, Record<string, number>> = {}
+
+  for (const metric of metrics) {
+    const key = getMetricKey(metric)
+
+    if (metric.type === 'mean' || metric.type === 'trend') {
+      const result = await api.query(
+        `SELECT properties[{flagProperty}] AS variant, count(DISTINCT person_id), ${
+          metric.type === 'mean' ? 'sum(toFloat(properties[{property}]))' : 'count()'
+        }
+         FROM events
+         WHERE event = {event} AND variant IS NOT NULL
+         GROUP BY variant`,
+        { event: metric.event, flagProperty, property: metric.property },
+      )
+      if (!result.ok) {
+        throw new Error(`Failed to query metric values: ${result.status} - ${result.errorText}`)
+      }
+
+      const rows = result.data?.results || []
+      conversions[key] = toVariantCounts(rows.map(([variant, persons]) => [variant, persons]))
+      values[key] = toVariantCounts(rows.map(([variant, , total]) => [variant, total]))
+      continue
+    }
+
+    // Funnels convert once a person sent the event of every step
+    const steps = [...new Set([metric.event, ...(metric.steps || [])])]
+    const result = await api.query(
+      `SELECT variant, count()
+       FROM (
+         SELECT person_id, argMax(properties[{flagProperty}], timestamp) AS variant
+         FROM events
+         WHERE event IN {steps} AND properties[{flagProperty}] IS NOT NULL
+         GROUP BY person_id
+         HAVING count(DISTINCT event) = {stepCount}
+       )
+       GROUP BY variant`,
+      { flagProperty, stepCount: steps.length, steps },
+    )
+    if (!result.ok) {
+      throw new Error(`Failed to query conversions: ${result.status} - ${result.errorText}`)
+    }
+
+    conversions[key] = toVariantCounts(result.data?.results)
+  }
+
+  return { conversions, exposures: toVariantCounts(exposures.data?.results), values }
+}
+
+/**
+ * PostHog implementation of the experiment provider.
+ * Flags and experiments are managed through the REST API with a personal API key,
+ * while variants are evaluated and exposures captured with `posthog-node`.
+ */
+export const createPostHogProvider = (
+  posthogConfig?: PostHogConfig,
+  options?: PostHogApiOptions,
+): ExperimentProvider => {
+  const api = createPostHogApi(posthogConfig, options)
+
+  // Created lazily so the plugin can be configured without a project API key
+  let client: PostHog | undefined
+  const getClient = () => {
+    if (!client) {
+      client = new PostHog(
+        posthogConfig?.projectApiKey || process.env.NEXT_PUBLIC_POSTHOG_KEY || '',
+        {
+          host: posthogConfig?.host || process.env.POSTHOG_HOST || 'https://app.posthog.com',
+        },
+      )
+    }
+    return client
+  }
+
+  return {
+    name: 'posthog',
+
+    captureExposure: ({ distinctId, flagKey, properties, variant }) => {
+      getClient().capture({
+        distinctId,
+        event: '$feature_flag_called',
+        properties: {
+          ...properties,
+          $feature_flag: flagKey,
+          $feature_flag_response: variant,
+        },
+      })
+      return Promise.resolve()
+    },
+
+    createExperiment: (experiment) => createPostHogExperiment(api, experiment),
+
+    deactivateFlag: async (key) => {
+      const { found } = await deactivatePostHogFeatureFlag(api, key)
+      return { found }
+    },
+
+    deleteFlag: (key) => deletePostHogFeatureFlag(api, key),
+
+    getResults: (args) => getPostHogResults(api, args),
+
+    getVariant: ({ distinctId, flagKey, personProperties }) =>
+      getClient().getFeatureFlag(flagKey, distinctId, {
+        groups: {},
+        personProperties: personProperties as Record<string, string> | undefined,
+      }),
+
+    updateExperiment: async ({ archived, endDate, featureFlagKey, startDate }) => {
+      const existing = await api.findExperimentByFlagKey(featureFlagKey)
+      if (!existing.ok) {
+        throw new Error(
+          `Failed to find the experiment of flag ${featureFlagKey}: ${existing.status} - ${existing.errorText}`,
+        )
+      }
+
+      if (!existing.data?.id) {
+        return { found: false }
+      }
+
+      const result = await api.updateExperiment(existing.data.id, {
+        archived,
+        end_date: endDate,
+        start_date: startDate,
+      })
+      if (!result.ok) {
+        throw new Error(`Failed to update experiment: ${result.status} - ${result.errorText}`)
+      }
+
+      return { found: true }
+    },
+
+    upsertExperiment: (experiment) => upsertPostHogExperiment(api, experiment),
+
+    upsertFlag: async (flag) => {
+      const { action, key } = await upsertPostHogFeatureFlag(api, flag)
+      return { action, key }
+    },
+  }
+}
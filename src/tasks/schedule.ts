@@ -0,0 +1,218 @@
+import type { PayloadRequest, TaskConfig } from 'payload'
+
+import type { ExperimentStatus } from '../types/index.js'
+
+import { getExperimentStatus } from '../utilities/lifecycle.js'
+
+/**
+ * Slug of the task starting and ending scheduled experiments
+ */
+export const EXPERIMENT_SCHEDULE_TASK_SLUG = 'ab-experiment-schedule'
+
+export type ExperimentScheduleAction = 'end' | 'start'
+
+/**
+ * Input of a scheduled start or end, targeting either a collection document or a global
+ */
+export interface ExperimentScheduleInput {
+  action: ExperimentScheduleAction
+  collection?: null | string
+  global?: null | string
+  id?: null | string
+  /**
+   * Scheduled date the job was queued for. A job whose date no longer matches the
+   * document was rescheduled and does nothing.
+   */
+  scheduledAt: string
+}
+
+/**
+ * Document field holding the date of each scheduled action
+ */
+export const EXPERIMENT_SCHEDULE_FIELDS: Record<ExperimentScheduleAction, string> = {
+  end: 'experimentEndAt',
+  start: 'experimentStartAt',
+}
+
+// Statuses each action applies to, and the status it moves the experiment to
+const SCHEDULE_TRANSITIONS: Record<
+  ExperimentScheduleAction,
+  { from: ExperimentStatus[]; to: ExperimentStatus }
+> = {
+  end: { from: ['running', 'paused'], to: 'concluded' },
+  start: { from: ['draft', 'paused'], to: 'running' },
+}
+
+const toISODate = (value: unknown): string | undefined => {
+  if (!value) {
+    return undefined
+  }
+
+  const date = new Date(value as Date | string)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+const hasDrafts = (req: PayloadRequest, { collection, global }: ExperimentScheduleInput) => {
+  const versions = global
+    ? req.payload.config.globals.find((config) => config.slug === global)?.versions
+    : req.payload.collections[collection as string]?.config.versions
+
+  return Boolean(typeof versions === 'object' && versions?.drafts)
+}
+
+/**
+ * Task updating the status of an experiment at its scheduled start or end. The status change
+ * goes through the regular update, so the plugin hooks sync the flag and the experiment.
+ */
+export const createExperimentScheduleTask = (): TaskConfig => ({
+  slug: EXPERIMENT_SCHEDULE_TASK_SLUG,
+  handler: async ({ input, req }) => {
+    const scheduleInput = input as ExperimentScheduleInput
+    const { id, action, collection, global, scheduledAt } = scheduleInput
+    const target = global ? `global ${global}` : `${collection} ${id}`
+
+    const document = (
+      global
+        ? await req.payload.findGlobal({ slug: global, depth: 0, req })
+        : await req.payload.findByID({
+            id: id as string,
+            collection: collection as string,
+            depth: 0,
+            disableErrors: true,
+            req,
+          })
+    ) as null | Record<string, unknown>
+
+    const status = getExperimentStatus(document)
+
+    if (
+      !document ||
+      toISODate(document[EXPERIMENT_SCHEDULE_FIELDS[action]]) !== toISODate(scheduledAt)
+    ) {
+      req.payload.logger.info(
+        `[A/B Plugin] Skipping the scheduled ${action} of ${target}, it was rescheduled or removed`,
+      )
+      return { output: { status, updated: false } }
+    }
+
+    const transition = SCHEDULE_TRANSITIONS[action]
+    if (document.enableABTesting !== true || !transition.from.includes(status)) {
+      req.payload.logger.info(
+        `[A/B Plugin] Skipping the scheduled ${action} of ${target}, the experiment is ${status}`,
+      )
+      return { output: { status, updated: false } }
+    }
+
+    const data = {
+      // Drafts only sync with the provider on publish
+      ...(hasDrafts(req, scheduleInput) ? { _status: 'published' } : {}),
+      experimentStatus: transition.to,
+    }
+
+    if (global) {
+      await req.payload.updateGlobal({ slug: global, data, depth: 0, req })
+    } else {
+      await req.payload.update({
+        id: id as string,
+        collection: collection as string,
+        data,
+        depth: 0,
+        req,
+      })
+    }
+
+    req.payload.logger.info(
+      `[A/B Plugin] Scheduled ${action} of ${target}: experiment is now ${transition.to}`,
+    )
+
+    return { output: { status: transition.to, updated: true } }
+  },
+  inputSchema: [
+    {
+      name: 'action',
+      type: 'select',
+      options: ['start', 'end'],
+      required: true,
+    },
+    { name: 'collection', type: 'text' },
+    { name: 'global', type: 'text' },
+    { name: 'id', type: 'text' },
+    { name: 'scheduledAt', type: 'text', required: true },
+  ],
+  label: 'A/B experiment schedule',
+  outputSchema: [
+    { name: 'status', type: 'text' },
+    { name: 'updated', type: 'checkbox' },
+  ],
+})
+
+/**
+ * Queues the start and end jobs of a document whose schedule changed. Pending jobs of a
+ * changed date are cancelled first, so saving a new date reschedules the experiment.
+ */
+export const scheduleExperimentJobs = async ({
+  collection,
+  doc,
+  global,
+  previousDoc,
+  queue,
+  req,
+}: {
+  collection?: string
+  doc: Record<string, unknown>
+  global?: string
+  previousDoc?: Record<string, unknown>
+  queue?: string
+  req: PayloadRequest
+}): Promise<void> => {
+  const id = global ? undefined : String(doc.id)
+
+  for (const action of Object.keys(EXPERIMENT_SCHEDULE_FIELDS) as ExperimentScheduleAction[]) {
+    const field = EXPERIMENT_SCHEDULE_FIELDS[action]
+    const scheduledAt = toISODate(doc[field])
+
+    if (scheduledAt === toISODate(previousDoc?.[field])) {
+      continue
+    }
+
+    await req.payload.jobs.cancel({
+      queue,
+      req,
+      where: {
+        and: [
+          { taskSlug: { equals: EXPERIMENT_SCHEDULE_TASK_SLUG } },
+          { 'input.action': { equals: action } },
+          global
+            ? { 'input.global': { equals: global } }
+            : {
+                and: [
+                  { 'input.collection': { equals: collection } },
+                  { 'input.id': { equals: id } },
+                ],
+              },
+        ],
+      },
+    })
+
+    if (!scheduledAt) {
+      req.payload.logger.info(
+        `[A/B Plugin] Cancelled the scheduled ${action} of ${global ? `global ${global}` : `${collection} ${id}`}`,
+      )
+      continue
+    }
+
+    const input: ExperimentScheduleInput = { id, action, collection, global, scheduledAt }
+
+    await req.payload.jobs.queue({
+      input,
+      queue,
+      req,
+      task: EXPERIMENT_SCHEDULE_TASK_SLUG,
+      waitUntil: new Date(scheduledAt),
+    })
+
+    req.payload.logger.info(
+      `[A/B Plugin] Scheduled the ${action} of ${global ? `global ${global}` : `${collection} ${id}`} at ${scheduledAt}`,
+    )
+  }
+}
@@ -0,0 +1,252 @@
+import type { Field, Payload, PayloadRequest, TaskConfig } from 'payload'
+
+import type { ABMetricConfig, ExperimentProvider } from '../types/index.js'
+import type { ExperimentStoppingRules } from '../utilities/stopping.js'
+
+import { getExperimentStatus } from '../utilities/lifecycle.js'
+import { getResultsSource, loadExperimentResults } from '../utilities/results.js'
+import { evaluateStoppingRules, hasStoppingRules } from '../utilities/stopping.js'
+import { getPromotedContent } from '../utilities/variants.js'
+
+/**
+ * Slug of the task evaluating the stopping rules of running experiments
+ */
+export const EXPERIMENT_STOPPING_RULES_TASK_SLUG = 'ab-experiment-stopping-rules'
+
+// Collection Payload stores its jobs in
+const JOBS_COLLECTION_SLUG = 'payload-jobs'
+
+/**
+ * Entity whose running experiments are evaluated
+ */
+type StoppingRulesTarget = {
+  /**
+   * Variant field trees, used to promote the winner
+   */
+  contentFields: Field[]
+  hasDrafts: boolean
+} & ({ collection: string; global?: never } | { collection?: never; global: string })
+
+/**
+ * Document of a collection or global running an experiment. Globals have no ID.
+ */
+type ExperimentDocument = {
+  [key: string]: unknown
+  experimentDecisions?: null | unknown[]
+  experimentStartedAt?: null | string
+  experimentStoppingRules?: ExperimentStoppingRules | null
+  id?: number | string
+  posthogFeatureFlagKey?: null | string
+}
+
+const findRunningExperiments = async (
+  req: PayloadRequest,
+  target: StoppingRulesTarget,
+): Promise<ExperimentDocument[]> => {
+  if (target.global) {
+    const document: ExperimentDocument = await req.payload.findGlobal({
+      slug: target.global,
+      depth: 0,
+      req,
+    })
+    return document?.enableABTesting === true ? [document] : []
+  }
+
+  const { docs } = await req.payload.find({
+    collection: target.collection as string,
+    depth: 0,
+    pagination: false,
+    req,
+    where: {
+      and: [
+        { enableABTesting: { equals: true } },
+        // Documents saved before statuses existed are running
+        {
+          or: [
+            { experimentStatus: { equals: 'running' } },
+            { experimentStatus: { exists: false } },
+          ],
+        },
+      ],
+    },
+  })
+
+  return docs
+}
+
+/**
+ * Queues the next evaluation of the stopping rules
+ */
+export const queueStoppingRulesRun = async (
+  payload: Payload,
+  { interval, queue, req }: { interval: number; queue?: string; req?: PayloadRequest },
+): Promise<void> => {
+  await payload.jobs.queue({
+    input: {},
+    queue,
+    req,
+    task: EXPERIMENT_STOPPING_RULES_TASK_SLUG,
+    waitUntil: new Date(Date.now() + interval * 60 * 1000),
+  })
+}
+
+/**
+ * Starts the periodic evaluation of the stopping rules, unless a run is already pending
+ */
+export const ensureStoppingRulesRun = async (
+  payload: Payload,
+  { interval, queue }: { interval: number; queue?: string },
+): Promise<void> => {
+  const { totalDocs } = await payload.count({
+    collection: JOBS_COLLECTION_SLUG,
+    where: {
+      and: [
+        { taskSlug: { equals: EXPERIMENT_STOPPING_RULES_TASK_SLUG } },
+        { completedAt: { exists: false } },
+        { hasError: { not_equals: true } },
+      ],
+    },
+  })
+
+  if (totalDocs === 0) {
+    await queueStoppingRulesRun(payload, { interval, queue })
+  }
+}
+
+/**
+ * Periodic task evaluating the stopping rules of every running experiment. Experiments that
+ * meet a rule are concluded, and their winner is promoted when the rules ask for it.
+ * Each automated decision is appended to the `experimentDecisions` of the document.
+ *
+ * The task queues its next run itself, `interval` minutes later.
+ */
+export const createStoppingRulesTask = ({
+  eventsSlug,
+  interval,
+  metrics,
+  provider,
+  queue,
+  targets,
+}: {
+  eventsSlug?: string
+  /**
+   * Minutes between two evaluations
+   */
+  interval: number
+  /**
+   * Metric catalog the `experimentMetrics` rows select from
+   */
+  metrics?: ABMetricConfig[]
+  provider: ExperimentProvider
+  queue?: string
+  /**
+   * Collections and globals with A/B testing, resolved once the plugin configured them
+   */
+  targets: () => StoppingRulesTarget[]
+}): TaskConfig => ({
+  slug: EXPERIMENT_STOPPING_RULES_TASK_SLUG,
+  handler: async ({ req }) => {
+    // Queued first, so a failing evaluation does not stop the next ones
+    await queueStoppingRulesRun(req.payload, { interval, queue, req })
+
+    const canLoadResults = Boolean(getResultsSource({ eventsSlug, provider }))
+    let checked = 0
+    let concluded = 0
+
+    for (const target of targets()) {
+      const name = target.global ? `global ${target.global}` : target.collection
+
+      let documents: ExperimentDocument[]
+      try {
+        documents = await findRunningExperiments(req, target)
+      } catch (error) {
+        req.payload.logger.error(
+          `[A/B Plugin] Failed to find the running experiments of ${name}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        continue
+      }
+
+      for (const document of documents) {
+        const rules = document.experimentStoppingRules
+        if (getExperimentStatus(document) !== 'running' || !hasStoppingRules(rules)) {
+          continue
+        }
+
+        checked++
+        const label = target.global ? name : `${name} ${document.id}`
+
+        try {
+          const results =
+            canLoadResults && document.posthogFeatureFlagKey
+              ? await loadExperimentResults(req.payload, document, {
+                  eventsSlug,
+                  metrics,
+                  provider,
+                })
+              : undefined
+
+          const decision = evaluateStoppingRules(rules, {
+            results,
+            startedAt: document.experimentStartedAt,
+          })
+
+          if (!decision.stop) {
+            continue
+          }
+
+          const { winner } = decision
+          const promoted = Boolean(rules?.promoteWinner && winner)
+
+          const data = {
+            ...(promoted
+              ? getPromotedContent(document, target.contentFields, winner as string)
+              : {}),
+            // Drafts would keep the concluded status out of the live document
+            ...(target.hasDrafts ? { _status: 'published' } : {}),
+            experimentDecisions: [
+              ...(document.experimentDecisions || []),
+              {
+                action: promoted ? 'promoted' : 'concluded',
+                decidedAt: new Date().toISOString(),
+                reason: decision.reason,
+                winner,
+              },
+            ],
+            experimentStatus: 'concluded',
+            ...(promoted ? { experimentWinner: winner } : {}),
+          }
+
+          if (target.global) {
+            await req.payload.updateGlobal({ slug: target.global, data, depth: 0, req })
+          } else {
+            await req.payload.update({
+              id: document.id as number | string,
+              collection: target.collection as string,
+              data,
+              depth: 0,
+              req,
+            })
+          }
+
+          concluded++
+          req.payload.logger.info(
+            `[A/B Plugin] Stopping rules concluded the experiment of ${label}${
+              promoted ? ` and promoted "${winner}"` : ''
+            }: ${decision.reason}`,
+          )
+        } catch (error) {
+          req.payload.logger.error(
+            `[A/B Plugin] Failed to evaluate the stopping rules of ${label}: ${error instanceof Error ? error.message : String(error)}`,
+          )
+        }
+      }
+    }
+
+    return { output: { checked, concluded } }
+  },
+  label: 'A/B experiment stopping rules',
+  outputSchema: [
+    { name: 'checked', type: 'number' },
+    { name: 'concluded', type: 'number' },
+  ],
+})
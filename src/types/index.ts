@@ -39,7 +39,373 @@ export interface ConfigWithHooks extends Omit<Config, 'hooks'> {
   hooks?: Hooks
 }
 
+/**
+ * A row of the `abVariants` array, holding one additional variant of an A/B/n test
+ */
+export interface ABVariantRow {
+  /**
+   * Variant content, with the same shape as the primary `abVariant` group
+   */
+  content?: null | Record<string, unknown>
+  id?: null | string
+  /**
+   * Multivariate key used by PostHog for this variant
+   */
+  key?: null | string
+  /**
+   * Human readable name shown in PostHog
+   */
+  name?: null | string
+  /**
+   * Share of the experiment traffic (0-100) this variant receives
+   */
+  trafficPercentage?: null | number
+}
+
+/**
+ * Resolves the public URL of a document, used to generate the experiment URL filter.
+ * Return a falsy value to run the experiment on every page.
+ */
+export type ResolveExperimentUrl = (
+  doc: Record<string, unknown>,
+  args: {
+    collectionSlug: string
+    req: PayloadRequest
+  },
+) => null | Promise<null | string | undefined> | string | undefined
+
+/**
+ * A variant of a multivariate feature flag, including the control
+ */
+export interface ExperimentFlagVariant {
+  key: string
+  name: string
+  /**
+   * Share of the experiment traffic (0-100). All variants of a flag add up to 100.
+   */
+  rolloutPercentage: number
+}
+
+/**
+ * Provider-agnostic definition of the feature flag behind an experiment
+ */
+export interface ExperimentFlagDefinition {
+  /**
+   * Whether the flag should serve variants
+   * @default true
+   */
+  active?: boolean
+  /**
+   * ID of the Payload document, used to generate a key when none is provided
+   */
+  docId?: number | string
+  /**
+   * Flag key. Generated by the provider when empty.
+   */
+  key?: string
+  name?: string
+  /**
+   * Share of the audience (0-100) that enters the experiment at all
+   * @default 100
+   */
+  rolloutPercentage?: number
+  /**
+   * Regular expression the current URL must match to enter the experiment
+   */
+  urlFilter?: string
+  variants: ExperimentFlagVariant[]
+}
+
+/**
+ * How a metric aggregates its event: conversion rate (`funnel`), event count per user (`trend`)
+ * or mean of a numeric event property per user (`mean`)
+ */
+export type ABMetricType = 'funnel' | 'mean' | 'trend'
+
+/**
+ * Event property filter of a metric, e.g. only purchases with `plan` equal to `pro`
+ */
+export interface ABMetricPropertyFilter {
+  key: string
+  /**
+   * PostHog property operator
+   * @default 'exact'
+   */
+  operator?: 'exact' | 'gt' | 'icontains' | 'is_not' | 'lt' | 'not_icontains' | 'regex'
+  value: (number | string)[] | boolean | number | string
+}
+
+/**
+ * Named metric editors can pick in the `experimentMetrics` of an experiment
+ */
+export interface ABMetricConfig {
+  /**
+   * Event the metric is computed from
+   */
+  event: string
+  /**
+   * Label of the option in the admin
+   * @default name
+   */
+  label?: string
+  /**
+   * Unique key stored on the documents, also used as the metric name
+   */
+  name: string
+  /**
+   * Only events matching every filter count towards the metric
+   */
+  properties?: ABMetricPropertyFilter[]
+  /**
+   * Numeric event property averaged by `mean` metrics, e.g. `revenue`
+   */
+  property?: string
+  /**
+   * Further events of a multi-step `funnel`, in order, after `event`
+   */
+  steps?: string[]
+  /**
+   * @default 'funnel'
+   */
+  type?: ABMetricType
+}
+
+/**
+ * A metric tracked by an experiment
+ */
+export interface ExperimentMetricDefinition {
+  event: string
+  name?: string
+  properties?: ABMetricPropertyFilter[]
+  property?: string
+  steps?: string[]
+  type?: ABMetricType
+}
+
+/**
+ * Lifecycle status of an experiment
+ * - `draft`: the flag exists but serves nothing
+ * - `running`: the flag serves the variants and the experiment collects data
+ * - `paused`: the flag is off, the experiment can be resumed
+ * - `concluded`: the flag is off and the experiment has an end date
+ * - `archived`: the experiment is archived, no further changes
+ */
+export type ExperimentStatus = 'archived' | 'concluded' | 'draft' | 'paused' | 'running'
+
+/**
+ * Provider-agnostic definition of an experiment
+ */
+export interface ExperimentDefinition {
+  description?: string
+  featureFlagKey: string
+  /**
+   * ID of the experiment with the provider, stored on the document after the first sync
+   */
+  id?: number | string
+  metrics: ExperimentMetricDefinition[]
+  name: string
+  /**
+   * ISO date the experiment started running
+   */
+  startDate?: string
+}
+
+/**
+ * Unique exposures and conversions per variant key, as counted by a provider
+ */
+export interface ExperimentResultCounts {
+  /**
+   * Conversions per metric name, then per variant key
+   */
+  conversions: Record<string, Record<string, number>>
+  exposures: Record<string, number>
+  /**
+   * Totals of mean and trend metrics per metric name, then per variant key: the sum of the
+   * metric property for a mean, the number of events for a trend
+   */
+  values?: Record<string, Record<string, number>>
+}
+
+/**
+ * An experimentation service the plugin syncs feature flags and experiments to,
+ * and uses to evaluate variants and capture exposures.
+ * PostHog is the built-in implementation, see `createPostHogProvider`.
+ */
+export interface ExperimentProvider {
+  /**
+   * Records that a distinct ID was exposed to a variant
+   */
+  captureExposure: (args: {
+    distinctId: string
+    flagKey: string
+    properties?: Record<string, unknown>
+    variant: string
+  }) => Promise<void>
+  /**
+   * Creates an experiment for an existing feature flag
+   */
+  createExperiment: (experiment: ExperimentDefinition) => Promise<{ id?: number | string }>
+  /**
+   * Turns a feature flag off so everyone gets the control
+   */
+  deactivateFlag: (key: string) => Promise<{ found: boolean }>
+  /**
+   * Deletes a feature flag, used when a document is deleted with `onDelete: 'delete'`.
+   * Providers without it keep the deactivated flag.
+   */
+  deleteFlag?: (key: string) => Promise<{ found: boolean }>
+  /**
+   * Counts exposures and conversions per variant, used when first-party events are disabled
+   */
+  getResults?: (args: {
+    flagKey: string
+    metrics: ExperimentMetricDefinition[]
+  }) => Promise<ExperimentResultCounts>
+  /**
+   * Evaluates a feature flag for a distinct ID. Returns the variant key, a boolean for
+   * simple flags, or a nullish value when the flag does not apply.
+   */
+  getVariant: (args: {
+    distinctId: string
+    flagKey: string
+    personProperties?: Record<string, unknown>
+    /**
+     * Share of the audience in the experiment, as stored on the document.
+     * Used by providers that assign variants locally.
+     */
+    rolloutPercentage?: number
+    /**
+     * Variants and traffic weights stored on the document, including the control.
+     * Used by providers that assign variants locally.
+     */
+    variants?: ExperimentFlagVariant[]
+  }) => Promise<boolean | null | string | undefined>
+  /**
+   * Unique provider name, e.g. `posthog`
+   */
+  name: string
+  /**
+   * Sets the end date or archives the experiment of a feature flag, when lifecycle
+   * transitions require it. Providers without experiments can leave it out.
+   */
+  updateExperiment?: (args: {
+    archived?: boolean
+    endDate?: string
+    featureFlagKey: string
+    startDate?: string
+  }) => Promise<{ found: boolean }>
+  /**
+   * Creates the experiment of a feature flag, or updates the existing one when its name,
+   * description or metrics changed. The existing experiment is found by `id`, or by the
+   * flag key when the document has no ID yet. Without it, `createExperiment` is only
+   * called until the document stores an experiment ID.
+   */
+  upsertExperiment?: (
+    experiment: ExperimentDefinition,
+  ) => Promise<{ action: 'created' | 'unchanged' | 'updated'; id?: number | string }>
+  /**
+   * Creates the feature flag, or updates it when a flag with the same key exists
+   */
+  upsertFlag: (
+    flag: ExperimentFlagDefinition,
+  ) => Promise<{ action: 'created' | 'updated'; key: string }>
+}
+
+/**
+ * Kind of a first-party experiment event: a visitor saw a variant, or converted on a metric
+ */
+export type ABEventType = 'conversion' | 'exposure'
+
+/**
+ * A first-party experiment event, as posted to the `/ab/events` endpoint
+ */
+export interface ABEventInput {
+  /**
+   * Slug of the collection the experiment document belongs to
+   */
+  collection?: string
+  distinctId: string
+  /**
+   * ID of the experiment document
+   */
+  documentId?: number | string
+  eventType: ABEventType
+  flagKey: string
+  /**
+   * Name of the metric a conversion counts towards, e.g. `signup`
+   */
+  metric?: string
+  /**
+   * Additional event properties, stored as JSON
+   */
+  properties?: Record<string, unknown>
+  variant: string
+}
+
+/**
+ * Options of the first-party experiment events collection
+ */
+export interface ABEventsConfig {
+  /**
+   * Slug of the collection storing the events
+   * @default 'ab-events'
+   */
+  slug?: string
+}
+
+/**
+ * Options of the scheduled experiment start and end
+ */
+export interface ABSchedulingConfig {
+  /**
+   * Jobs queue the scheduled starts and ends are added to. Make sure it is run,
+   * e.g. with the `jobs.autoRun` option of your Payload config.
+   * @default 'default'
+   */
+  queue?: string
+}
+
+/**
+ * Options of the automatic stopping rules
+ */
+export interface ABStoppingRulesConfig {
+  /**
+   * Minutes between two evaluations of the stopping rules
+   * @default 60
+   */
+  interval?: number
+  /**
+   * Jobs queue the evaluations are added to. Make sure it is run,
+   * e.g. with the `jobs.autoRun` option of your Payload config.
+   * @default 'default'
+   */
+  queue?: string
+}
+
+/**
+ * Options of the experiment audit log collection
+ */
+export interface ABAuditLogConfig {
+  /**
+   * Slug of the collection storing the audit log
+   * @default 'ab-audit-log'
+   */
+  slug?: string
+}
+
+/**
+ * What happens to the feature flag of a deleted document: `deactivate` turns it off,
+ * `delete` also soft-deletes it, and `keep` leaves the flag and experiment untouched
+ */
+export type ABDeleteCleanup = 'deactivate' | 'delete' | 'keep'
+
 export interface ABTestingPluginOptions {
+  /**
+   * Records who enabled or changed an experiment, the requests sent to PostHog and the
+   * status transitions in a read-only collection. Pass `true` to use the defaults.
+   * @default false
+   */
+  auditLog?: ABAuditLogConfig | boolean
   /**
    * Configuration for collections that should have A/B testing fields
    * Can be either an array of collection slugs or an object with more detailed configuration
@@ -50,10 +416,55 @@ export interface ABTestingPluginOptions {
    * @default false
    */
   disabled?: boolean
+  /**
+   * Stores exposures and conversions in a plugin-owned collection, ingested through
+   * the public `POST /api/ab/events` endpoint. Pass `true` to use the defaults.
+   * @default false
+   */
+  events?: ABEventsConfig | boolean
+  /**
+   * Configuration for globals that should have A/B testing fields, e.g. a header or banner
+   * Can be either an array of global slugs or an object with more detailed configuration
+   */
+  globals?: Record<string, ABGlobalConfig> | string[]
+  /**
+   * Catalog of the metrics editors can pick for an experiment
+   * @default CTA Click, Form Submit and Page View funnels on the events of the same name
+   */
+  metrics?: ABMetricConfig[]
+  /**
+   * Cleans up the feature flags of deleted documents and of their block experiments, and
+   * archives their experiments. Bulk deletes are cleaned up document by document.
+   * @default 'deactivate'
+   */
+  onDelete?: ABDeleteCleanup
   /**
    * PostHog configuration options
    */
   posthog?: PostHogConfig
+  /**
+   * Experimentation provider used to sync feature flags and experiments
+   * @default createPostHogProvider(posthog)
+   */
+  provider?: ExperimentProvider
+  /**
+   * Resolves the public URL of a document, used to auto-generate the experiment URL filter
+   * when the editor leaves it empty. Can be overridden per collection.
+   * @default `<serverURL>/<slug>`, with a `home` slug mapped to the root
+   */
+  resolveExperimentUrl?: ResolveExperimentUrl
+  /**
+   * Adds `experimentStartAt` and `experimentEndAt` fields and registers a Payload jobs task
+   * that starts and ends the experiments at those dates. Pass `true` to use the defaults.
+   * @default false
+   */
+  scheduling?: ABSchedulingConfig | boolean
+  /**
+   * Adds per-experiment stopping rules and registers a periodic Payload jobs task that
+   * concludes running experiments once a rule is met. Pass `true` to use the defaults.
+   * @default false
+   */
+  stoppingRules?: ABStoppingRulesConfig | boolean
 }
 
 /**
@@ -74,11 +485,31 @@ export interface PostHogConfig {
    * @default 'https://app.posthog.com'
    */
   host?: string
+  /**
+   * PostHog project API key (`phc_...`), used to evaluate flags and capture events.
+   * Falls back to the `NEXT_PUBLIC_POSTHOG_KEY` environment variable.
+   */
+  projectApiKey?: string
 
   projectId?: string
 }
 
+/**
+ * Where the A/B testing fields are added in the admin panel
+ * - `tabs`: wraps the original fields in a Content tab, followed by the A/B Testing and Experiments tabs
+ * - `append-tabs`: appends the A/B Testing and Experiments tabs to the existing top-level tabs
+ * - `sidebar`: adds the A/B testing fields to the sidebar, keeping the original layout
+ * - `collapsible`: adds the A/B testing fields in collapsibles after the original fields
+ */
+export type ABFieldPlacement = 'append-tabs' | 'collapsible' | 'sidebar' | 'tabs'
+
 export interface ABCollectionConfig {
+  /**
+   * Names of `blocks` fields whose blocks can run their own experiment, with a variant
+   * of the block content and a feature flag per block instance
+   * Accepts dot paths for blocks fields inside groups, arrays and named tabs, e.g. `hero.blocks`
+   */
+  blocks?: string[]
   /**
    * Enable or disable A/B testing for this collection
    * @default true
@@ -87,12 +518,45 @@ export interface ABCollectionConfig {
   /**
    * Fields to exclude from the A/B variant
    * Only used when fields is not specified
+   * Accepts dot paths to exclude sub-fields of groups and arrays, e.g. `hero.image`
    * @default ['id', 'createdAt', 'updatedAt']
    */
   excludeFields?: string[]
   /**
    * Fields to include in the A/B variant
    * If not specified, all fields will be included except system fields
+   * Accepts dot paths to include only sub-fields of groups and arrays, e.g. `hero.cta.label`
    */
   fields?: string[]
+  /**
+   * Where the A/B testing fields are added in the admin panel
+   * @default 'tabs'
+   */
+  placement?: ABFieldPlacement
+  /**
+   * Resolves the public URL of a document in this collection.
+   * Overrides the plugin-level `resolveExperimentUrl`.
+   */
+  resolveExperimentUrl?: ResolveExperimentUrl
+}
+
+/**
+ * Resolves the public URL a global is tested on, used to generate the experiment URL filter.
+ * Return a falsy value to run the experiment on every page.
+ */
+export type ResolveGlobalExperimentUrl = (
+  doc: Record<string, unknown>,
+  args: {
+    globalSlug: string
+    req: PayloadRequest
+  },
+) => null | Promise<null | string | undefined> | string | undefined
+
+export interface ABGlobalConfig extends Omit<ABCollectionConfig, 'resolveExperimentUrl'> {
+  /**
+   * Resolves the public URL the global is tested on.
+   * Globals usually render on every page, so the plugin-level resolver is not used for them
+   * and experiments run everywhere unless this or the URL filter field is set.
+   */
+  resolveExperimentUrl?: ResolveGlobalExperimentUrl
 }
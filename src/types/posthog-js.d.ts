@@ -2,30 +2,31 @@ declare module 'posthog-js' {
   export interface PostHog {
     [key: string]: unknown
     __loaded?: boolean
-    capture: (
-      eventName: string,
-      properties?: Record<string, unknown>
-    ) => void
+    capture: (eventName: string, properties?: Record<string, unknown>) => void
     debug: (enabled: boolean) => void
     featureFlags: {
       override: (flags: Record<string, boolean | string>) => void
     }
+    get_distinct_id?: () => string
     getFeatureFlag: (key: string) => boolean | null | string
     getFeatureFlagPayload: (key: string) => unknown
-    identify: (
-      distinctId: string,
-      userProperties?: Record<string, unknown>
-    ) => void
+    identify: (distinctId: string, userProperties?: Record<string, unknown>) => void
     init: (
       apiKey: string,
       options?: {
         [key: string]: unknown
         api_host?: string
         capture_pageview?: boolean
-      }
+      },
     ) => void
     isFeatureEnabled: (key: string) => boolean
-    onFeatureFlags: (callback: (flags: string[], variants: Record<string, boolean | string>, meta: { errorsLoading?: boolean }) => void) => void
+    onFeatureFlags: (
+      callback: (
+        flags: string[],
+        variants: Record<string, boolean | string>,
+        meta: { errorsLoading?: boolean },
+      ) => void,
+    ) => void
     reloadFeatureFlags: () => Promise<void>
     reset: () => void
   }
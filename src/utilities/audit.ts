@@ -0,0 +1,84 @@
+import type { PayloadRequest } from 'payload'
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+import type { ExperimentStatus } from '../types/index.js'
+
+/**
+ * Entry of the experiment audit log. The user is taken from the request.
+ */
+export type AuditLogEntry = {
+  action: 'disabled' | 'enabled' | 'posthog_request' | 'status_changed' | 'url_filter_generated'
+  collection?: string
+  documentId?: number | string
+  flagKey?: string
+  fromStatus?: ExperimentStatus
+  global?: string
+  message?: string
+  request?: unknown
+  requestMethod?: string
+  requestPath?: string
+  responseStatus?: number
+  toStatus?: ExperimentStatus
+}
+
+/**
+ * Document whose hooks are running, so entries recorded deeper in the call stack,
+ * e.g. by the PostHog client, can reference it
+ */
+type AuditScope = {
+  req: PayloadRequest
+} & Pick<AuditLogEntry, 'collection' | 'documentId' | 'global'>
+
+/**
+ * Writes entries to the audit log collection. A failing write is logged and never fails
+ * the change being audited. Entries are written outside the transaction of the request, so
+ * requests already sent to PostHog stay recorded when the save fails and is rolled back.
+ */
+export const createAuditLog = (slug: string) => {
+  const scopes = new AsyncLocalStorage<AuditScope>()
+
+  const record = async (req: PayloadRequest, entry: AuditLogEntry): Promise<void> => {
+    try {
+      await req.payload.create({
+        collection: slug,
+        data: {
+          ...entry,
+          documentId: entry.documentId === undefined ? undefined : String(entry.documentId),
+          userCollection: req.user?.collection,
+          userEmail: req.user?.email,
+          userId: req.user?.id === undefined ? undefined : String(req.user.id),
+        },
+        depth: 0,
+        overrideAccess: true,
+        user: req.user || undefined,
+      })
+    } catch (error) {
+      req.payload.logger.error(
+        `[A/B Plugin] Failed to write the audit log entry "${entry.action}": ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  return {
+    record,
+    /**
+     * Records an entry for the document whose hooks are running. Does nothing outside of them.
+     */
+    recordInScope: async (entry: AuditLogEntry): Promise<void> => {
+      const scope = scopes.getStore()
+      if (!scope) {
+        return
+      }
+
+      const { req, ...target } = scope
+      await record(req, { ...target, ...entry })
+    },
+    /**
+     * Runs `fn` with the given document as the target of `recordInScope`
+     */
+    runInScope: <T>(scope: AuditScope, fn: () => T): T => scopes.run(scope, fn),
+  }
+}
+
+export type AuditLog = ReturnType<typeof createAuditLog>
@@ -0,0 +1,114 @@
+import type { Block, Field } from 'payload'
+
+/**
+ * A block instance with its own experiment fields, see the `blocks` collection option
+ */
+export type BlockExperiment = {
+  [key: string]: unknown
+  abVariant?: Record<string, unknown>
+  blockType: string
+  enableABTesting?: boolean | null
+  id?: null | string
+  posthogFeatureFlagKey?: null | string
+}
+
+/**
+ * Maps the blocks of the `blocks` fields at the given dot paths, e.g. `layout` or `hero.blocks`.
+ * Walks presentational containers, groups, arrays and named tabs to reach them.
+ */
+export const mapBlocksFields = (
+  fields: Field[],
+  paths: string[],
+  map: (block: Block) => Block,
+  prefix = '',
+): Field[] =>
+  fields.map((field): Field => {
+    if (field.type === 'row' || field.type === 'collapsible') {
+      return { ...field, fields: mapBlocksFields(field.fields, paths, map, prefix) }
+    }
+
+    if (field.type === 'tabs') {
+      return {
+        ...field,
+        tabs: field.tabs.map((tab) => ({
+          ...tab,
+          fields: mapBlocksFields(
+            tab.fields,
+            paths,
+            map,
+            'name' in tab && tab.name ? `${prefix}${tab.name}.` : prefix,
+          ),
+        })),
+      }
+    }
+
+    if (field.type === 'group' || field.type === 'array') {
+      return {
+        ...field,
+        fields: mapBlocksFields(field.fields, paths, map, `${prefix}${field.name}.`),
+      }
+    }
+
+    if (field.type === 'blocks' && paths.includes(`${prefix}${field.name}`)) {
+      return { ...field, blocks: field.blocks.map(map) }
+    }
+
+    return field
+  })
+
+// Variant content holds copies of the control, its blocks are not experiments of their own
+const VARIANT_KEYS = ['abVariant', 'abVariants']
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+
+/**
+ * Whether a value is a block instance with experiment fields
+ */
+export const isBlockExperiment = (value: unknown): value is BlockExperiment =>
+  isPlainObject(value) && typeof value.blockType === 'string' && 'enableABTesting' in value
+
+/**
+ * Lists the block instances with experiment fields anywhere in a document, outside of variant content
+ */
+export const findBlockExperiments = (data: unknown): BlockExperiment[] => {
+  if (Array.isArray(data)) {
+    return data.flatMap(findBlockExperiments)
+  }
+
+  if (!isPlainObject(data)) {
+    return []
+  }
+
+  const nested = Object.entries(data)
+    .filter(([key]) => !VARIANT_KEYS.includes(key))
+    .flatMap(([, value]) => findBlockExperiments(value))
+
+  return isBlockExperiment(data) ? [data, ...nested] : nested
+}
+
+/**
+ * Replaces the block instances with experiment fields in a document, outside of variant content.
+ * Blocks nested in a replaced block are mapped first.
+ */
+export const mapBlockExperiments = <T>(
+  data: T,
+  map: (block: BlockExperiment) => Record<string, unknown>,
+): T => {
+  if (Array.isArray(data)) {
+    return data.map((item) => mapBlockExperiments(item, map)) as T
+  }
+
+  if (!isPlainObject(data)) {
+    return data
+  }
+
+  const mapped = Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      VARIANT_KEYS.includes(key) ? value : mapBlockExperiments(value, map),
+    ]),
+  )
+
+  return (isBlockExperiment(data) ? map(mapped as BlockExperiment) : mapped) as T
+}
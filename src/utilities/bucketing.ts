@@ -0,0 +1,60 @@
+import type { ExperimentFlagVariant } from '../types/index.js'
+
+/**
+ * 32-bit FNV-1a hash of a string, mapped to a number in [0, 1).
+ * Stable across processes and runtimes, so the same input always lands in the same bucket.
+ */
+export const hashToUnitInterval = (value: string): number => {
+  let hash = 0x811c9dc5
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return (hash >>> 0) / 0x100000000
+}
+
+/**
+ * Assigns a distinct ID to a variant of a flag, using the traffic weights of each variant.
+ * Returns null when the distinct ID falls outside the experiment rollout.
+ *
+ * Rollout and variant assignment use independent hashes, so ramping the rollout up
+ * does not move people who are already in the experiment to another variant.
+ */
+export const assignVariant = ({
+  distinctId,
+  flagKey,
+  rolloutPercentage = 100,
+  variants,
+}: {
+  distinctId: string
+  flagKey: string
+  rolloutPercentage?: number
+  variants: Pick<ExperimentFlagVariant, 'key' | 'rolloutPercentage'>[]
+}): null | string => {
+  if (variants.length === 0) {
+    return null
+  }
+
+  if (hashToUnitInterval(`${flagKey}.rollout.${distinctId}`) * 100 >= rolloutPercentage) {
+    return null
+  }
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.rolloutPercentage, 0)
+  if (totalWeight <= 0) {
+    return null
+  }
+
+  const bucket = hashToUnitInterval(`${flagKey}.variant.${distinctId}`) * totalWeight
+  let cumulative = 0
+
+  for (const variant of variants) {
+    cumulative += variant.rolloutPercentage
+    if (bucket < cumulative) {
+      return variant.key
+    }
+  }
+
+  return variants[variants.length - 1].key
+}
@@ -0,0 +1,41 @@
+import type { PayloadRequest } from 'payload'
+
+import type { ResolveExperimentUrl } from '../types/index.js'
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Default experiment URL resolver: `<serverURL>/<slug>`, with a `home` slug mapped to the root.
+ * Returns undefined when the server URL or the document slug is missing.
+ */
+export const defaultResolveExperimentUrl: ResolveExperimentUrl = (doc, { req }) => {
+  const serverURL = req.payload.config.serverURL
+  const slug = typeof doc.slug === 'string' ? doc.slug : undefined
+
+  if (!serverURL || !slug) {
+    return undefined
+  }
+
+  const base = serverURL.replace(/\/+$/, '')
+  return slug === 'home' ? base : `${base}/${slug.replace(/^\/+/, '')}`
+}
+
+/**
+ * Builds the `$current_url` regex used as a PostHog release condition from a page URL.
+ * The URL matches with or without a trailing slash and with any query string.
+ */
+export const buildExperimentUrlFilter = (url: string): string =>
+  `^${escapeRegex(url.replace(/\/+$/, ''))}/?(?:\\?.*)?$`
+
+/**
+ * Resolves the page URL of a document with the configured resolver and turns it into a URL filter
+ */
+export const resolveExperimentUrlFilter = async (
+  resolveExperimentUrl: ResolveExperimentUrl,
+  doc: Record<string, unknown>,
+  args: { collectionSlug: string; req: PayloadRequest },
+): Promise<string | undefined> => {
+  const url = await resolveExperimentUrl(doc, args)
+
+  return url ? buildExperimentUrlFilter(url) : undefined
+}
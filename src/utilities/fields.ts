@@ -0,0 +1,164 @@
+import type { Field, Tab } from 'payload'
+
+/**
+ * A field that stores data under its own name, or a named tab
+ */
+export type NamedField = {
+  localized?: boolean
+  name: string
+}
+
+const tabHasName = (tab: Tab): tab is { name: string } & Tab => 'name' in tab && Boolean(tab.name)
+
+/**
+ * Field paths a variant includes or excludes, e.g. `hero.title`
+ */
+export type FieldSelection = {
+  /**
+   * Paths left out of the variant. Ignored when `include` is not empty.
+   */
+  exclude?: string[]
+  /**
+   * Paths the variant is limited to
+   */
+  include?: string[]
+}
+
+type FieldWithSubFields = { fields: Field[] } & Field
+
+// Groups, arrays and named tabs nest their data under their own name
+const hasNestedData = (field: Field | Tab): field is FieldWithSubFields =>
+  ('type' in field && (field.type === 'group' || field.type === 'array')) ||
+  (!('type' in field) && 'name' in field && Boolean(field.name))
+
+/**
+ * Selects the fields of a variant by dot path, e.g. `hero.cta.label`.
+ * Walks presentational containers (rows, collapsibles and unnamed tabs) preserving the layout,
+ * and narrows groups, arrays and named tabs to the selected sub-fields.
+ * Containers left empty are dropped.
+ */
+export const selectFields = (fields: Field[], selection: FieldSelection, prefix = ''): Field[] => {
+  const include = selection.include && selection.include.length > 0 ? selection.include : undefined
+
+  const selectField = <F extends Field | Tab>(field: F): F[] => {
+    if (!('name' in field) || !field.name) {
+      return []
+    }
+
+    const path = `${prefix}${field.name}`
+    const isSelected = include ? include.includes(path) : !selection.exclude?.includes(path)
+    const selectsSubFields = (include || selection.exclude || []).some((selected) =>
+      selected.startsWith(`${path}.`),
+    )
+
+    // Narrow the sub-fields when only some of them are selected or excluded
+    if (selectsSubFields && hasNestedData(field) && (include ? !isSelected : isSelected)) {
+      const subFields = selectFields(field.fields, selection, `${path}.`)
+      return subFields.length > 0 ? [{ ...field, fields: subFields }] : []
+    }
+
+    return isSelected ? [field] : []
+  }
+
+  return fields.flatMap((field): Field[] => {
+    if (field.type === 'row' || field.type === 'collapsible') {
+      const children = selectFields(field.fields, selection, prefix)
+      return children.length > 0 ? [{ ...field, fields: children }] : []
+    }
+
+    if (field.type === 'tabs') {
+      const tabs = field.tabs.flatMap((tab): Tab[] => {
+        if (tabHasName(tab)) {
+          return selectField(tab)
+        }
+
+        const children = selectFields(tab.fields, selection, prefix)
+        return children.length > 0 ? [{ ...tab, fields: children }] : []
+      })
+      return tabs.length > 0 ? [{ ...field, tabs }] : []
+    }
+
+    return selectField(field)
+  })
+}
+
+/**
+ * Maps every named field inside presentational containers and tabs, keeping the containers
+ * and tabs as they are. The fields of named tabs are mapped like those of unnamed tabs.
+ */
+export const mapNamedFields = (fields: Field[], map: (field: Field) => Field): Field[] =>
+  fields.map((field): Field => {
+    if (field.type === 'row' || field.type === 'collapsible') {
+      return { ...field, fields: mapNamedFields(field.fields, map) }
+    }
+
+    if (field.type === 'tabs') {
+      return {
+        ...field,
+        tabs: field.tabs.map((tab) => ({ ...tab, fields: mapNamedFields(tab.fields, map) })),
+      }
+    }
+
+    return map(field)
+  })
+
+/**
+ * Lists the named fields of a field tree, looking through presentational containers
+ */
+export const getNamedFields = (fields: Field[]): NamedField[] =>
+  fields.flatMap((field): NamedField[] => {
+    if (field.type === 'row' || field.type === 'collapsible') {
+      return getNamedFields(field.fields)
+    }
+
+    if (field.type === 'tabs') {
+      return field.tabs.flatMap((tab) => (tabHasName(tab) ? [tab] : getNamedFields(tab.fields)))
+    }
+
+    return 'name' in field ? [field as NamedField] : []
+  })
+
+/**
+ * Picks the values of a field tree from document data, so nested groups and arrays
+ * only keep the sub-fields the tree selects
+ */
+export const pickFieldData = (
+  data: Record<string, unknown>,
+  fields: Field[],
+): Record<string, unknown> => {
+  const picked: Record<string, unknown> = {}
+
+  const pickField = (field: Field | Tab) => {
+    if (!('name' in field) || !field.name || data[field.name] === undefined) {
+      return
+    }
+
+    const value = data[field.name]
+    const isObject = (item: unknown): item is Record<string, unknown> =>
+      Boolean(item) && typeof item === 'object' && !Array.isArray(item)
+
+    if (hasNestedData(field) && 'type' in field && field.type === 'array') {
+      picked[field.name] = Array.isArray(value)
+        ? value.map((row) => (isObject(row) ? pickFieldData(row, field.fields) : row))
+        : value
+    } else if (hasNestedData(field)) {
+      picked[field.name] = isObject(value) ? pickFieldData(value, field.fields) : value
+    } else {
+      picked[field.name] = value
+    }
+  }
+
+  fields.forEach((field) => {
+    if (field.type === 'row' || field.type === 'collapsible') {
+      Object.assign(picked, pickFieldData(data, field.fields))
+    } else if (field.type === 'tabs') {
+      field.tabs.forEach((tab) =>
+        tabHasName(tab) ? pickField(tab) : Object.assign(picked, pickFieldData(data, tab.fields)),
+      )
+    } else {
+      pickField(field)
+    }
+  })
+
+  return picked
+}
@@ -0,0 +1,127 @@
+import type { PayloadRequest, Where } from 'payload'
+
+import { findBlockExperiments } from './blocks.js'
+
+/**
+ * Characters allowed in feature flag keys: letters, numbers, hyphens and underscores
+ */
+export const FEATURE_FLAG_KEY_PATTERN = /^[\w-]+$/
+
+/**
+ * Where a feature flag key is saved, and the A/B-enabled collections and globals whose
+ * documents must not use it already
+ */
+export type FeatureFlagKeyScope = {
+  /**
+   * Paths of the blocks fields running block experiments per collection, e.g. `layout`
+   */
+  blocks?: Record<string, string[]>
+  collection?: string
+  collections: string[]
+  /**
+   * Keys of the document being saved, its own and those of its blocks
+   */
+  documentKeys?: (null | string | undefined)[]
+  global?: string
+  globals: string[]
+  id?: number | string
+}
+
+/**
+ * Validates the characters of a feature flag key. Empty keys are generated, so they are valid.
+ */
+export const validateFeatureFlagKeyFormat = (value: unknown): string | true => {
+  if (value === undefined || value === null || value === '') {
+    return true
+  }
+
+  if (typeof value !== 'string' || !FEATURE_FLAG_KEY_PATTERN.test(value)) {
+    return 'Feature flag keys can only contain letters, numbers, hyphens (-) and underscores (_)'
+  }
+
+  return true
+}
+
+/**
+ * Finds another document of an A/B-enabled collection or global using a feature flag key,
+ * for itself or one of its blocks. Drafts are included, as they are published with their key.
+ * Resolves to a description of it, e.g. `posts 42`, or undefined when the key is free.
+ */
+export const findFeatureFlagKeyOwner = async (
+  req: PayloadRequest,
+  key: string,
+  { id, blocks = {}, collection, collections, global, globals }: FeatureFlagKeyScope,
+): Promise<string | undefined> => {
+  for (const slug of collections) {
+    if (!req.payload.collections[slug]) {
+      continue
+    }
+
+    const usesKey: Where[] = [
+      { posthogFeatureFlagKey: { equals: key } },
+      ...(blocks[slug] || []).map((path) => ({
+        [`${path}.posthogFeatureFlagKey`]: { equals: key },
+      })),
+    ]
+
+    const { docs } = await req.payload.find({
+      collection: slug,
+      depth: 0,
+      draft: true,
+      limit: 1,
+      req,
+      where: {
+        and: [
+          { or: usesKey },
+          ...(slug === collection && id !== undefined ? [{ id: { not_equals: id } }] : []),
+        ],
+      },
+    })
+
+    if (docs[0]) {
+      return `${slug} ${docs[0].id}`
+    }
+  }
+
+  for (const slug of globals) {
+    if (slug === global) {
+      continue
+    }
+
+    const doc = await req.payload.findGlobal({ slug, depth: 0, draft: true, req })
+    if (
+      doc?.posthogFeatureFlagKey === key ||
+      findBlockExperiments(doc).some((block) => block.posthogFeatureFlagKey === key)
+    ) {
+      return `global ${slug}`
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Validates the characters of a feature flag key, and that no other document of an
+ * A/B-enabled collection or global, nor another block of the same document, uses it
+ */
+export const validateFeatureFlagKey = async (
+  value: unknown,
+  req: PayloadRequest,
+  scope: FeatureFlagKeyScope,
+): Promise<string | true> => {
+  const format = validateFeatureFlagKeyFormat(value)
+  if (format !== true || typeof value !== 'string' || !value) {
+    return format
+  }
+
+  if ((scope.documentKeys || []).filter((key) => key === value).length > 1) {
+    return `The feature flag key "${value}" is used more than once in this document. Feature flag keys must be unique.`
+  }
+
+  const owner = await findFeatureFlagKeyOwner(req, value, scope)
+  if (owner) {
+    return `The feature flag key "${value}" is already used by ${owner}. Feature flag keys must be unique.`
+  }
+
+  return true
+}
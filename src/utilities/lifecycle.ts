@@ -0,0 +1,64 @@
+import type { ExperimentStatus } from '../types/index.js'
+
+/**
+ * Experiment statuses, in lifecycle order
+ */
+export const EXPERIMENT_STATUSES: ExperimentStatus[] = [
+  'draft',
+  'running',
+  'paused',
+  'concluded',
+  'archived',
+]
+
+/**
+ * Statuses an experiment can move to from each status
+ */
+export const EXPERIMENT_STATUS_TRANSITIONS: Record<ExperimentStatus, ExperimentStatus[]> = {
+  archived: [],
+  concluded: ['archived'],
+  draft: ['running', 'archived'],
+  paused: ['running', 'concluded'],
+  running: ['paused', 'concluded'],
+}
+
+const isExperimentStatus = (value: unknown): value is ExperimentStatus =>
+  EXPERIMENT_STATUSES.includes(value as ExperimentStatus)
+
+/**
+ * Returns the lifecycle status of a document. Documents saved before statuses existed
+ * have no status and are treated as running, since their flag is already live.
+ */
+export const getExperimentStatus = (
+  document: null | Record<string, unknown> | undefined,
+): ExperimentStatus =>
+  isExperimentStatus(document?.experimentStatus) ? document.experimentStatus : 'running'
+
+/**
+ * Validates a status change. Keeping the same status is always allowed.
+ */
+export const validateExperimentStatusTransition = (
+  value: unknown,
+  previousValue: unknown,
+): string | true => {
+  if (value === undefined || value === null) {
+    return true
+  }
+
+  if (!isExperimentStatus(value)) {
+    return `Unknown experiment status ${JSON.stringify(value)}`
+  }
+
+  if (!isExperimentStatus(previousValue) || previousValue === value) {
+    return true
+  }
+
+  const allowed = EXPERIMENT_STATUS_TRANSITIONS[previousValue]
+  if (!allowed.includes(value)) {
+    return `An experiment cannot move from "${previousValue}" to "${value}". Allowed: ${
+      allowed.length > 0 ? allowed.map((status) => `"${status}"`).join(', ') : 'none'
+    }`
+  }
+
+  return true
+}
@@ -0,0 +1,32 @@
+import type { Config } from 'payload'
+
+/**
+ * Returns the codes of the locales configured in Payload, or an empty array
+ * when localization is disabled
+ */
+export const getLocaleCodes = (localization: Config['localization']): string[] => {
+  if (!localization) {
+    return []
+  }
+
+  return localization.locales.map((locale) => (typeof locale === 'string' ? locale : locale.code))
+}
+
+/**
+ * Whether a field value is missing in a locale, e.g. because it was never translated
+ */
+export const isEmptyLocalizedValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === ''
+
+/**
+ * Whether an experiment runs in a locale. Experiments without `experimentLocales`
+ * run in every locale, as do requests without a locale.
+ */
+export const isExperimentLocale = (
+  document: { experimentLocales?: null | string[] },
+  locale?: null | string,
+): boolean =>
+  !locale ||
+  !Array.isArray(document.experimentLocales) ||
+  document.experimentLocales.length === 0 ||
+  document.experimentLocales.includes(locale)
@@ -0,0 +1,146 @@
+import type { ABMetricConfig, ABMetricType, ExperimentMetricDefinition } from '../types/index.js'
+
+type MetricRow = {
+  event?: null | string
+  metric?: null | string
+  name?: null | string
+  property?: null | string
+  steps?: { event?: null | string }[] | null
+  type?: ABMetricType | null
+}
+
+/**
+ * Value of the metric select for metrics defined on the document instead of the catalog
+ */
+export const CUSTOM_METRIC = 'custom'
+
+/**
+ * Metrics offered when the plugin has no `metrics` option
+ */
+export const DEFAULT_METRICS: ABMetricConfig[] = [
+  { name: 'cta_click', event: 'cta_click', label: 'CTA Click' },
+  { name: 'form_submit', event: 'form_submit', label: 'Form Submit' },
+  { name: 'page_view', event: 'page_view', label: 'Page View' },
+]
+
+/**
+ * Key of a metric in the result counts: its name, or its event for metrics without a name
+ */
+export const getMetricKey = (metric: ExperimentMetricDefinition): string =>
+  metric.name || metric.event
+
+/**
+ * Maps the `experimentMetrics` rows of a document to provider-agnostic metric definitions.
+ * Rows selecting a metric of the catalog get its event, type and filters. Custom rows define
+ * their own. Otherwise the event falls back to the metric name, then to the selected metric.
+ */
+export const getExperimentMetrics = (
+  document: {
+    [key: string]: unknown
+    experimentMetrics?: MetricRow[] | null
+  },
+  catalog: ABMetricConfig[] = DEFAULT_METRICS,
+): ExperimentMetricDefinition[] => {
+  if (!Array.isArray(document.experimentMetrics)) {
+    return []
+  }
+
+  return document.experimentMetrics.flatMap((row) => {
+    const registered = row?.metric
+      ? catalog.find((metric) => metric.name === row.metric)
+      : undefined
+
+    if (registered) {
+      return [
+        {
+          name: row.name || registered.name,
+          type: registered.type,
+          event: row.event || registered.event,
+          properties: registered.properties,
+          property: registered.property,
+          steps: registered.steps,
+        },
+      ]
+    }
+
+    const isCustom = row?.metric === CUSTOM_METRIC
+    const event = row?.event || row?.name || (isCustom ? undefined : row?.metric)
+    if (!event) {
+      return []
+    }
+
+    const steps = (row.steps || []).flatMap((step) => (step?.event ? [step.event] : []))
+
+    return [
+      {
+        name: row.name || (isCustom ? event : row.metric) || event,
+        type: row.type || undefined,
+        event,
+        property: row.property || undefined,
+        steps: steps.length > 0 ? steps : undefined,
+      },
+    ]
+  })
+}
+
+/**
+ * Checks that a metric defines everything its type needs: an event, the numeric property
+ * of a mean, and an event for every step of a funnel
+ */
+export const validateMetricDefinition = (
+  metric: {
+    steps?: (null | string | undefined)[]
+  } & Partial<Omit<ExperimentMetricDefinition, 'steps'>>,
+): string | true => {
+  const label = metric.name ? `Metric "${metric.name}"` : 'The metric'
+  const type = metric.type || 'funnel'
+
+  if (!metric.event) {
+    return `${label} needs an event`
+  }
+
+  if (type === 'mean' && !metric.property) {
+    return `${label} is a mean and needs a numeric event property`
+  }
+
+  if (metric.steps?.length) {
+    if (type !== 'funnel') {
+      return `${label} has funnel steps, only funnel metrics can have steps`
+    }
+
+    const emptyStep = metric.steps.findIndex((step) => !step)
+    if (emptyStep !== -1) {
+      return `Step ${emptyStep + 2} of ${metric.name ? `metric "${metric.name}"` : 'the metric'} needs an event`
+    }
+  }
+
+  return true
+}
+
+/**
+ * Validates the custom rows of `experimentMetrics`, catalog metrics are checked on init
+ */
+export const validateExperimentMetrics = (rows: unknown): string | true => {
+  if (!Array.isArray(rows)) {
+    return true
+  }
+
+  for (const row of rows as MetricRow[]) {
+    if (row?.metric !== CUSTOM_METRIC) {
+      continue
+    }
+
+    const result = validateMetricDefinition({
+      name: row.name || undefined,
+      type: row.type || undefined,
+      event: row.event || undefined,
+      property: row.property || undefined,
+      steps: row.steps?.map((step) => step?.event),
+    })
+    if (result !== true) {
+      return result
+    }
+  }
+
+  return true
+}
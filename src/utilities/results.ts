@@ -0,0 +1,161 @@
+import type { Payload } from 'payload'
+
+import type {
+  ABMetricConfig,
+  ABMetricType,
+  ExperimentMetricDefinition,
+  ExperimentProvider,
+  ExperimentResultCounts,
+} from '../types/index.js'
+
+import { getExperimentMetrics, getMetricKey } from './metrics.js'
+import { computeVariantStatistics, type VariantStatistics } from './statistics.js'
+import { CONTROL_VARIANT_KEY, getDocumentVariants } from './variants.js'
+
+/**
+ * Results of the experiment running on a document, per variant and metric
+ */
+export type ExperimentResults = {
+  exposures: { exposures: number; key: string; name: string }[]
+  flagKey: string
+  metrics: {
+    event: string
+    name?: string
+    type: ABMetricType
+    variants: ({
+      /**
+       * Mean value per exposure of a mean or trend metric: the property sum or the number
+       * of events divided by the exposures. Only reported when the source counts totals.
+       */
+      mean?: number
+    } & VariantStatistics)[]
+  }[]
+  source: string
+}
+
+/**
+ * Counts unique distinct IDs per variant in the first-party events collection, with a count
+ * query per variant and metric. The events endpoint marks the first exposure of each distinct
+ * ID and its first conversion per metric after an exposure as counted, see `isCountedEvent`.
+ * Conversions count towards a metric when the event's `metric` matches its name or event.
+ */
+const countStoredEvents = async (
+  payload: Payload,
+  {
+    eventsSlug,
+    flagKey,
+    metrics,
+    variantKeys,
+  }: {
+    eventsSlug: string
+    flagKey: string
+    metrics: ExperimentMetricDefinition[]
+    variantKeys: string[]
+  },
+): Promise<ExperimentResultCounts> => {
+  const count = async (variant: string, where: Record<string, unknown>) => {
+    const { totalDocs } = await payload.count({
+      collection: eventsSlug,
+      where: {
+        counted: { equals: true },
+        flagKey: { equals: flagKey },
+        variant: { equals: variant },
+        ...where,
+      },
+    })
+    return [variant, totalDocs] as const
+  }
+
+  const countPerVariant = async (where: Record<string, unknown>) =>
+    Object.fromEntries(await Promise.all(variantKeys.map((variant) => count(variant, where))))
+
+  const conversions: ExperimentResultCounts['conversions'] = {}
+  for (const metric of metrics) {
+    conversions[getMetricKey(metric)] = await countPerVariant({
+      eventType: { equals: 'conversion' },
+      metric: { in: [...new Set([getMetricKey(metric), metric.event])] },
+    })
+  }
+
+  return {
+    conversions,
+    exposures: await countPerVariant({ eventType: { equals: 'exposure' } }),
+  }
+}
+
+/**
+ * Name of the source results are loaded from: the first-party events collection when it
+ * is enabled, otherwise the provider. Undefined when neither reports results.
+ */
+export const getResultsSource = ({
+  eventsSlug,
+  provider,
+}: {
+  eventsSlug?: string
+  provider: ExperimentProvider
+}): string | undefined => (eventsSlug ? 'events' : provider.getResults ? provider.name : undefined)
+
+/**
+ * Loads the counts of a document's experiment and computes exposures, conversion rates,
+ * confidence intervals, uplift and probability to be best per variant for every metric,
+ * and the mean per exposure of mean and trend metrics.
+ * Throws when the counts cannot be loaded.
+ */
+export const loadExperimentResults = async (
+  payload: Payload,
+  document: Record<string, unknown>,
+  {
+    eventsSlug,
+    metrics: catalog,
+    provider,
+  }: { eventsSlug?: string; metrics?: ABMetricConfig[]; provider: ExperimentProvider },
+): Promise<ExperimentResults> => {
+  const flagKey = document.posthogFeatureFlagKey as string
+  const metrics = getExperimentMetrics(document, catalog)
+  const source = getResultsSource({ eventsSlug, provider }) as string
+
+  const variants = getDocumentVariants(document)
+
+  const counts = eventsSlug
+    ? await countStoredEvents(payload, {
+        eventsSlug,
+        flagKey,
+        metrics,
+        variantKeys: variants.map((variant) => variant.key),
+      })
+    : await provider.getResults!({ flagKey, metrics })
+
+  return {
+    exposures: variants.map((variant) => ({
+      name: variant.name,
+      exposures: counts.exposures[variant.key] || 0,
+      key: variant.key,
+    })),
+    flagKey,
+    metrics: metrics.map((metric) => ({
+      name: metric.name,
+      type: metric.type || 'funnel',
+      event: metric.event,
+      variants: computeVariantStatistics(
+        variants.map((variant) => {
+          const exposures = counts.exposures[variant.key] || 0
+          // Concurrent beacons or provider counts may still report more conversions than
+          // exposures, which would leave the rates and intervals undefined
+          const conversions = Math.min(
+            counts.conversions[getMetricKey(metric)]?.[variant.key] || 0,
+            exposures,
+          )
+          return { conversions, exposures, key: variant.key }
+        }),
+        { controlKey: CONTROL_VARIANT_KEY },
+      ).map((variant) => {
+        const total = counts.values?.[getMetricKey(metric)]?.[variant.key]
+        if (total === undefined || (metric.type !== 'mean' && metric.type !== 'trend')) {
+          return variant
+        }
+        return { ...variant, mean: variant.exposures > 0 ? total / variant.exposures : 0 }
+      }),
+    })),
+    source,
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Exposure and conversion counts of one variant for one metric
+ */
+export type VariantCounts = {
+  conversions: number
+  exposures: number
+  key: string
+}
+
+/**
+ * Statistics of one variant for one metric
+ */
+export type VariantStatistics = {
+  /**
+   * Bounds of the conversion rate at the requested confidence level (Wilson score interval)
+   */
+  confidenceInterval: [number, number]
+  conversionRate: number
+  /**
+   * Bayesian probability that this variant has the highest conversion rate
+   */
+  probabilityToBeBest: number
+  /**
+   * Relative change of the conversion rate compared to the control, e.g. 0.1 for +10%.
+   * Null for the control, or when the control has no conversions.
+   */
+  uplift: null | number
+} & VariantCounts
+
+/**
+ * Inverse of the standard normal cumulative distribution function (Acklam's approximation)
+ */
+export const normalQuantile = (p: number): number => {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`normalQuantile expects a probability between 0 and 1, got ${p}`)
+  }
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2,
+    -3.066479806614716e1, 2.506628277459239,
+  ]
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1,
+    -1.328068155288572e1,
+  ]
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ]
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416]
+  const low = 0.02425
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    )
+  }
+
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p)
+  }
+
+  const q = p - 0.5
+  const r = q * q
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  )
+}
+
+/**
+ * Wilson score interval of a conversion rate. Stays within [0, 1] and behaves well
+ * for small samples and rates close to 0 or 1, unlike the normal approximation.
+ */
+export const wilsonInterval = (
+  conversions: number,
+  exposures: number,
+  confidenceLevel = 0.95,
+): [number, number] => {
+  if (exposures <= 0) {
+    return [0, 0]
+  }
+
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2)
+  const rate = conversions / exposures
+  const denominator = 1 + (z * z) / exposures
+  const center = rate + (z * z) / (2 * exposures)
+  const margin = z * Math.sqrt((rate * (1 - rate)) / exposures + (z * z) / (4 * exposures ** 2))
+
+  return [
+    Math.max(0, (center - margin) / denominator),
+    Math.min(1, (center + margin) / denominator),
+  ]
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), so simulations are reproducible
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+}
+
+const sampleNormal = (random: () => number) => {
+  // Box-Muller transform, 1 - random() avoids log(0)
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+}
+
+/**
+ * Samples a Gamma(shape, 1) distribution (Marsaglia and Tsang)
+ */
+const sampleGamma = (shape: number, random: () => number): number => {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * random() ** (1 / shape)
+  }
+
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+
+  for (;;) {
+    let x: number
+    let v: number
+    do {
+      x = sampleNormal(random)
+      v = 1 + c * x
+    } while (v <= 0)
+
+    v = v ** 3
+    const u = random()
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v
+    }
+  }
+}
+
+const sampleBeta = (alpha: number, beta: number, random: () => number) => {
+  const x = sampleGamma(alpha, random)
+  return x / (x + sampleGamma(beta, random))
+}
+
+/**
+ * Probability of each variant having the highest conversion rate, estimated by sampling
+ * Beta(1 + conversions, 1 + non-conversions) posteriors (uniform prior).
+ * Seeded, so the same counts always give the same probabilities.
+ */
+export const probabilityToBeBest = (
+  variants: Pick<VariantCounts, 'conversions' | 'exposures'>[],
+  { samples = 10000, seed = 1 }: { samples?: number; seed?: number } = {},
+): number[] => {
+  if (variants.length === 0) {
+    return []
+  }
+
+  const random = createRandom(seed)
+  const wins = variants.map(() => 0)
+
+  for (let i = 0; i < samples; i++) {
+    let bestIndex = 0
+    let bestValue = -1
+
+    variants.forEach((variant, index) => {
+      const failures = Math.max(0, variant.exposures - variant.conversions)
+      const value = sampleBeta(1 + variant.conversions, 1 + failures, random)
+      if (value > bestValue) {
+        bestValue = value
+        bestIndex = index
+      }
+    })
+
+    wins[bestIndex]++
+  }
+
+  return wins.map((count) => count / samples)
+}
+
+/**
+ * Computes conversion rates, confidence intervals, uplift against the control and the
+ * probability to be best for every variant of a metric
+ */
+export const computeVariantStatistics = (
+  variants: VariantCounts[],
+  {
+    confidenceLevel = 0.95,
+    controlKey,
+    samples,
+  }: { confidenceLevel?: number; controlKey: string; samples?: number },
+): VariantStatistics[] => {
+  const rate = (variant: VariantCounts) =>
+    variant.exposures > 0 ? variant.conversions / variant.exposures : 0
+
+  const control = variants.find((variant) => variant.key === controlKey)
+  const controlRate = control ? rate(control) : 0
+  const probabilities = probabilityToBeBest(variants, { samples })
+
+  return variants.map((variant, index) => ({
+    ...variant,
+    confidenceInterval: wilsonInterval(variant.conversions, variant.exposures, confidenceLevel),
+    conversionRate: rate(variant),
+    probabilityToBeBest: probabilities[index],
+    uplift:
+      variant.key === controlKey || !control || controlRate === 0
+        ? null
+        : (rate(variant) - controlRate) / controlRate,
+  }))
+}
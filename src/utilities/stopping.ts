@@ -0,0 +1,95 @@
+import type { ExperimentResults } from './results.js'
+
+/**
+ * Stopping rules of an experiment, stored in the `experimentStoppingRules` group
+ */
+export type ExperimentStoppingRules = {
+  /**
+   * Concludes the experiment once it ran for this many days
+   */
+  maxDurationDays?: null | number
+  /**
+   * Exposures every variant needs before the probability rule applies
+   */
+  minSamplePerVariant?: null | number
+  /**
+   * Concludes the experiment once a variant reaches this probability to be best, in percent
+   */
+  probabilityToBeBest?: null | number
+  /**
+   * Promotes the winning variant when the probability rule concludes the experiment
+   */
+  promoteWinner?: boolean | null
+}
+
+export type StoppingDecision =
+  | { reason: string; stop: false }
+  | { reason: string; stop: true; winner?: string }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whether an experiment has a rule that can conclude it. The minimum sample only gates
+ * the probability rule, so it does not stop an experiment on its own.
+ */
+export const hasStoppingRules = (rules: ExperimentStoppingRules | null | undefined): boolean =>
+  Boolean(rules?.probabilityToBeBest || rules?.maxDurationDays)
+
+const formatPercent = (value: number) => `${Math.round(value * 1000) / 10}%`
+
+/**
+ * Decides whether an experiment should be concluded. The probability to be best is read
+ * from the first metric of the experiment, and applies once every variant reached the
+ * minimum sample. The maximum duration concludes the experiment without a winner.
+ */
+export const evaluateStoppingRules = (
+  rules: ExperimentStoppingRules | null | undefined,
+  {
+    now = new Date(),
+    results,
+    startedAt,
+  }: { now?: Date; results?: ExperimentResults; startedAt?: null | string },
+): StoppingDecision => {
+  if (!rules || !hasStoppingRules(rules)) {
+    return { reason: 'No stopping rules', stop: false }
+  }
+
+  const primaryMetric = results?.metrics[0]
+  const minSample = rules.minSamplePerVariant || 0
+  const sampleReached =
+    results?.exposures.every((variant) => variant.exposures >= minSample) ?? false
+
+  if (rules.probabilityToBeBest && primaryMetric?.variants.length && sampleReached) {
+    const best = primaryMetric.variants.reduce((leader, variant) =>
+      variant.probabilityToBeBest > leader.probabilityToBeBest ? variant : leader,
+    )
+
+    if (best.probabilityToBeBest * 100 >= rules.probabilityToBeBest) {
+      return {
+        reason: `"${best.key}" has a ${formatPercent(best.probabilityToBeBest)} probability to be best on "${
+          primaryMetric.name || primaryMetric.event
+        }", reaching the ${rules.probabilityToBeBest}% target`,
+        stop: true,
+        winner: best.key,
+      }
+    }
+  }
+
+  if (rules.maxDurationDays && startedAt) {
+    const days = (now.getTime() - new Date(startedAt).getTime()) / DAY_MS
+
+    if (days >= rules.maxDurationDays) {
+      return {
+        reason: `Reached the maximum duration of ${rules.maxDurationDays} days without a winner`,
+        stop: true,
+      }
+    }
+  }
+
+  return {
+    reason: sampleReached
+      ? 'No variant reached the target probability yet'
+      : `Not every variant reached ${minSample} exposures yet`,
+    stop: false,
+  }
+}
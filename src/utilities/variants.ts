@@ -0,0 +1,280 @@
+import type { Field } from 'payload'
+
+import type { ABVariantRow } from '../types/index.js'
+
+import { pickFieldData } from './fields.js'
+import { isEmptyLocalizedValue } from './localization.js'
+
+/**
+ * Key PostHog uses for the original (unchanged) content
+ */
+export const CONTROL_VARIANT_KEY = 'control'
+
+/**
+ * Key used for the primary `abVariant` group when no `posthogVariantName` is set
+ */
+export const DEFAULT_VARIANT_KEY = 'variant'
+
+/**
+ * A single arm of an A/B/n test, as stored on a Payload document
+ */
+export type ABVariantDefinition = {
+  /**
+   * Content merged over the control document when this variant is assigned.
+   * Undefined for the control.
+   */
+  content?: Record<string, unknown>
+  key: string
+  name: string
+  /**
+   * Share of the experiment traffic (0-100) set by the editor, if any
+   */
+  trafficPercentage?: number
+}
+
+/**
+ * A variant with its resolved share of the experiment traffic
+ */
+export type ABVariantAllocation = { trafficPercentage: number } & ABVariantDefinition
+
+type DocumentWithVariants = {
+  [key: string]: unknown
+  abVariant?: Record<string, unknown>
+  abVariants?: ABVariantRow[] | null
+  controlTrafficPercentage?: null | number
+  experimentRolloutPercentage?: null | number
+  posthogVariantName?: string
+  variantTrafficPercentage?: null | number
+}
+
+const toPercentage = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+const toVariantName = (key: string) => key.charAt(0).toUpperCase() + key.slice(1)
+
+/**
+ * Returns the key of the primary `abVariant` group for a document
+ */
+export const getPrimaryVariantKey = (document: DocumentWithVariants): string =>
+  (typeof document.posthogVariantName === 'string' && document.posthogVariantName) ||
+  DEFAULT_VARIANT_KEY
+
+/**
+ * Lists every arm of the experiment stored on a document, starting with the control,
+ * followed by the primary `abVariant` group and any additional `abVariants` rows.
+ */
+export const getDocumentVariants = (document: DocumentWithVariants): ABVariantDefinition[] => {
+  const primaryKey = getPrimaryVariantKey(document)
+
+  const variants: ABVariantDefinition[] = [
+    {
+      name: 'Control',
+      key: CONTROL_VARIANT_KEY,
+      trafficPercentage: toPercentage(document.controlTrafficPercentage),
+    },
+    {
+      name: toVariantName(primaryKey),
+      content: document.abVariant,
+      key: primaryKey,
+      trafficPercentage: toPercentage(document.variantTrafficPercentage),
+    },
+  ]
+
+  if (Array.isArray(document.abVariants)) {
+    document.abVariants.forEach((row) => {
+      if (!row?.key || variants.some((variant) => variant.key === row.key)) {
+        return
+      }
+
+      variants.push({
+        name: row.name || toVariantName(row.key),
+        content: row.content ?? undefined,
+        key: row.key,
+        trafficPercentage: toPercentage(row.trafficPercentage),
+      })
+    })
+  }
+
+  return variants
+}
+
+/**
+ * Resolves the content to merge over the control for the variant key returned by PostHog.
+ * Returns undefined for the control or for keys that are not defined on the document.
+ */
+export const getVariantContent = (
+  document: DocumentWithVariants,
+  variantKey: string,
+): Record<string, unknown> | undefined => {
+  if (variantKey === CONTROL_VARIANT_KEY) {
+    return undefined
+  }
+
+  return getDocumentVariants(document).find((variant) => variant.key === variantKey)?.content
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+
+/**
+ * Whether variant content holds any value, e.g. kept from an earlier experiment
+ */
+export const hasVariantContent = (content: unknown): boolean =>
+  isPlainObject(content) && Object.values(content).some((value) => !isEmptyLocalizedValue(value))
+
+// Blocks and rich text nodes of another type replace the control instead of merging into it
+const hasDifferentType = (control: Record<string, unknown>, variant: Record<string, unknown>) =>
+  (variant.blockType !== undefined && variant.blockType !== control.blockType) ||
+  (variant.type !== undefined && variant.type !== control.type)
+
+const mergeVariantValue = (control: unknown, variant: unknown): unknown => {
+  if (isEmptyLocalizedValue(variant)) {
+    return control
+  }
+
+  // Arrays are merged row by row and keep the variant's length
+  if (Array.isArray(variant)) {
+    return Array.isArray(control)
+      ? variant.map((item, index) => mergeVariantValue(control[index], item))
+      : variant
+  }
+
+  if (isPlainObject(variant) && isPlainObject(control) && !hasDifferentType(control, variant)) {
+    const merged: Record<string, unknown> = { ...control }
+    Object.entries(variant).forEach(([key, value]) => {
+      merged[key] = mergeVariantValue(control[key], value)
+    })
+    return merged
+  }
+
+  return variant
+}
+
+/**
+ * Deep merges variant content over the control document. Variants selected with dot paths
+ * only hold some sub-fields of a group or array, the rest keeps the control's content,
+ * as do variant fields left empty, e.g. in a locale that was not translated.
+ */
+export const mergeVariantContent = <T extends Record<string, unknown>>(
+  document: T,
+  content: Record<string, unknown>,
+): T => mergeVariantValue(document, content) as T
+
+/**
+ * Control content once a variant is promoted: the variant merged over the control, limited
+ * to the fields copied into the variants. The control keeps the values the variant leaves
+ * empty, like when the variant is served. Empty for the control or unknown variants.
+ */
+export const getPromotedContent = (
+  document: DocumentWithVariants,
+  contentFields: Field[],
+  variantKey: string,
+): Record<string, unknown> => {
+  const variantContent = getVariantContent(document, variantKey)
+
+  return variantContent
+    ? pickFieldData(
+        mergeVariantContent(pickFieldData(document, contentFields), variantContent),
+        contentFields,
+      )
+    : {}
+}
+
+/**
+ * Returns every arm of the experiment with its resolved share of the traffic.
+ * Uses the editor's percentages when all of them are set and add up to 100, otherwise
+ * splits evenly and gives any remainder to the first arms so the total is always 100.
+ */
+export const getTrafficAllocation = (document: DocumentWithVariants): ABVariantAllocation[] => {
+  const variants = getDocumentVariants(document)
+
+  if (
+    variants.every((variant) => variant.trafficPercentage !== undefined) &&
+    validateTrafficAllocation(document) === true
+  ) {
+    return variants as ABVariantAllocation[]
+  }
+
+  const baseShare = Math.floor(100 / variants.length)
+  const remainder = 100 - baseShare * variants.length
+
+  return variants.map((variant, index) => ({
+    ...variant,
+    trafficPercentage: baseShare + (index < remainder ? 1 : 0),
+  }))
+}
+
+/**
+ * Returns the percentage of the audience that enters the experiment at all
+ * @default 100
+ */
+export const getExperimentRolloutPercentage = (document: DocumentWithVariants): number =>
+  toPercentage(document.experimentRolloutPercentage) ?? 100
+
+/**
+ * Validates the traffic split of a document: either every arm has a percentage and they
+ * add up to 100, or none is set and the traffic is split evenly.
+ */
+export const validateTrafficAllocation = (
+  data: Partial<DocumentWithVariants> | undefined,
+): string | true => {
+  const variants = getDocumentVariants(data || {})
+  const configured = variants.filter((variant) => variant.trafficPercentage !== undefined)
+
+  if (configured.length === 0) {
+    return true
+  }
+
+  if (configured.length !== variants.length) {
+    const missing = variants
+      .filter((variant) => variant.trafficPercentage === undefined)
+      .map((variant) => variant.name)
+    return `Set a traffic percentage for every variant (missing: ${missing.join(', ')}), or leave them all empty for an even split.`
+  }
+
+  if (configured.some((variant) => !Number.isInteger(variant.trafficPercentage))) {
+    return 'Traffic percentages must be whole numbers.'
+  }
+
+  const total = configured.reduce((sum, variant) => sum + (variant.trafficPercentage || 0), 0)
+  if (total !== 100) {
+    return `Traffic percentages must add up to 100 (currently ${total}).`
+  }
+
+  return true
+}
+
+const VARIANT_KEY_PATTERN = /^[\w-]+$/
+
+/**
+ * Validates the keys of the additional `abVariants` rows: keys must use the characters
+ * PostHog accepts and be unique across the control, the primary variant and every row.
+ */
+export const validateVariantKeys = (
+  rows: unknown,
+  data: Partial<DocumentWithVariants> | undefined,
+): string | true => {
+  if (!Array.isArray(rows)) {
+    return true
+  }
+
+  const usedKeys = new Set([CONTROL_VARIANT_KEY, getPrimaryVariantKey(data || {})])
+
+  for (const row of rows as ABVariantRow[]) {
+    if (!row?.key) {
+      continue
+    }
+
+    if (!VARIANT_KEY_PATTERN.test(row.key)) {
+      return `Variant key "${row.key}" may only contain letters, numbers, hyphens (-) and underscores (_).`
+    }
+
+    if (usedKeys.has(row.key)) {
+      return `Variant key "${row.key}" is already used by another variant of this experiment.`
+    }
+
+    usedKeys.add(row.key)
+  }
+
+  return true
+}